@@ -0,0 +1,325 @@
+import { InvalidRequestError } from "./errors.js";
+import { checkOpenAIChatRequest } from "./validation.js";
+
+// Converts OpenAI chat completion requests into Anthropic Messages requests
+
+type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string; detail?: string } }
+  | { type: string; [key: string]: unknown };
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface OpenAIMessage {
+  role: string;
+  content?: string | OpenAIContentPart[] | null;
+  name?: string;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+interface OpenAITool {
+  type: "function";
+  function: { name: string; description?: string; parameters?: unknown };
+}
+
+type OpenAIToolChoice =
+  | "auto"
+  | "required"
+  | "none"
+  | { type: "function"; function: { name: string } };
+
+export interface OpenAIChatRequest {
+  messages?: OpenAIMessage[];
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stop?: string | string[] | null;
+  stream?: boolean;
+  user?: string;
+  n?: number;
+  response_format?: { type: string };
+  tools?: OpenAITool[];
+  tool_choice?: OpenAIToolChoice;
+  parallel_tool_calls?: boolean;
+  [key: string]: unknown;
+}
+
+type AnthropicBlock = Record<string, unknown> & { type: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicBlock[];
+}
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+// OpenAI parameters with no Anthropic equivalent. Requests that set them to
+// anything but their neutral value are rejected instead of silently
+// behaving differently from what the client asked for.
+const UNSUPPORTED_PARAMS = [
+  "n",
+  "presence_penalty",
+  "frequency_penalty",
+  "logit_bias",
+  "logprobs",
+  "top_logprobs",
+  "seed",
+  "reasoning_effort",
+  "prediction",
+  "audio",
+  "modalities",
+  "web_search_options",
+  "functions",
+  "function_call",
+];
+
+function isNeutral(param: string, value: unknown): boolean {
+  if (value === undefined || value === null || value === false) return true;
+  if (param === "n") return value === 1;
+  if (typeof value === "number") return value === 0;
+  if (Array.isArray(value)) {
+    return param === "modalities"
+      ? value.every((m) => m === "text")
+      : value.length === 0;
+  }
+  if (typeof value === "object") return Object.keys(value).length === 0;
+  return false;
+}
+
+function unsupported(param: string, reason?: string): InvalidRequestError {
+  return new InvalidRequestError(
+    `Parameter '${param}' is not supported by Anthropic providers${
+      reason ? `: ${reason}` : ""
+    }`,
+    param,
+    "unsupported_parameter"
+  );
+}
+
+const DATA_URL = /^data:([^;,]+);base64,(.*)$/s;
+
+function convertImage(url: string): AnthropicBlock {
+  const match = DATA_URL.exec(url);
+  if (match) {
+    return {
+      type: "image",
+      source: { type: "base64", media_type: match[1], data: match[2] },
+    };
+  }
+  if (/^https?:\/\//.test(url)) {
+    return { type: "image", source: { type: "url", url } };
+  }
+  throw new InvalidRequestError(
+    "image_url must be an http(s) URL or a base64 data URL",
+    "messages"
+  );
+}
+
+function convertContent(
+  content: OpenAIMessage["content"],
+  index: number
+): AnthropicBlock[] {
+  if (content === undefined || content === null) return [];
+  if (typeof content === "string") {
+    // Anthropic rejects empty text blocks
+    return content ? [{ type: "text", text: content }] : [];
+  }
+
+  return content.flatMap((part): AnthropicBlock[] => {
+    if (part.type === "text") {
+      const text = (part as { text: string }).text;
+      return text ? [{ type: "text", text }] : [];
+    }
+    if (part.type === "image_url") {
+      const { image_url } = part as { image_url: { url: string } };
+      return [convertImage(image_url.url)];
+    }
+    throw unsupported(
+      `messages[${index}].content`,
+      `content part type '${part.type}'`
+    );
+  });
+}
+
+function convertToolCalls(
+  toolCalls: OpenAIToolCall[],
+  index: number
+): AnthropicBlock[] {
+  return toolCalls.map((call) => {
+    let input: unknown;
+    try {
+      input = JSON.parse(call.function.arguments || "{}");
+    } catch {
+      throw new InvalidRequestError(
+        `messages[${index}].tool_calls: arguments for '${call.function.name}' are not valid JSON`,
+        `messages[${index}].tool_calls`
+      );
+    }
+    return { type: "tool_use", id: call.id, name: call.function.name, input };
+  });
+}
+
+function convertTools(tools: OpenAITool[]): Record<string, unknown>[] {
+  return tools.map((tool, index) => {
+    if (tool.type !== "function") {
+      throw unsupported(`tools[${index}]`, `tool type '${tool.type}'`);
+    }
+    return {
+      name: tool.function.name,
+      ...(tool.function.description && {
+        description: tool.function.description,
+      }),
+      input_schema: tool.function.parameters ?? {
+        type: "object",
+        properties: {},
+      },
+    };
+  });
+}
+
+function convertToolChoice(
+  choice: OpenAIToolChoice | undefined,
+  parallelToolCalls: boolean | undefined
+): Record<string, unknown> | undefined {
+  let result: Record<string, unknown> | undefined;
+  if (choice === "required") result = { type: "any" };
+  else if (choice === "none") result = { type: "none" };
+  else if (choice === "auto") result = { type: "auto" };
+  else if (typeof choice === "object") {
+    result = { type: "tool", name: choice.function.name };
+  }
+
+  if (parallelToolCalls === false) {
+    result = { type: "auto", ...result, disable_parallel_tool_use: true };
+  }
+  return result;
+}
+
+function textOf(content: OpenAIMessage["content"]): string {
+  if (!content) return "";
+  if (typeof content === "string") return content;
+  return content
+    .filter((part) => part.type === "text")
+    .map((part) => (part as { text: string }).text)
+    .join("\n");
+}
+
+/**
+ * Builds an Anthropic `/v1/messages` body from an OpenAI chat completion
+ * request. System and developer messages are hoisted into `system`,
+ * consecutive turns from the same role are merged, image parts become image
+ * blocks, and tool calls/results become tool_use/tool_result blocks.
+ * Throws InvalidRequestError for anything that can't be mapped.
+ */
+export function toAnthropicRequest(
+  body: OpenAIChatRequest,
+  model: string
+): Record<string, unknown> {
+  checkOpenAIChatRequest(body);
+  for (const param of UNSUPPORTED_PARAMS) {
+    if (!isNeutral(param, body[param])) throw unsupported(param);
+  }
+
+  if (body.response_format && body.response_format.type !== "text") {
+    throw unsupported(
+      "response_format",
+      `'${body.response_format.type}' is not available`
+    );
+  }
+
+  if (body.temperature !== undefined && body.temperature !== null) {
+    if (body.temperature < 0 || body.temperature > 1) {
+      throw new InvalidRequestError(
+        "temperature must be between 0 and 1 for Anthropic providers",
+        "temperature"
+      );
+    }
+  }
+
+  const system: string[] = [];
+  const messages: AnthropicMessage[] = [];
+
+  (body.messages ?? []).forEach((message, index) => {
+    if (message.role === "system" || message.role === "developer") {
+      const text = textOf(message.content);
+      if (text) system.push(text);
+      return;
+    }
+
+    let role: AnthropicMessage["role"];
+    let content: AnthropicBlock[];
+
+    if (message.role === "tool") {
+      // Tool results are sent back as part of the next user turn; results
+      // with images keep them as blocks
+      const hasImages =
+        Array.isArray(message.content) &&
+        message.content.some((part) => part.type === "image_url");
+      role = "user";
+      content = [
+        {
+          type: "tool_result",
+          tool_use_id: message.tool_call_id,
+          content: hasImages
+            ? convertContent(message.content, index)
+            : textOf(message.content),
+        },
+      ];
+    } else if (message.role === "user" || message.role === "assistant") {
+      role = message.role;
+      content = convertContent(message.content, index);
+      if (message.role === "assistant" && message.tool_calls) {
+        content.push(...convertToolCalls(message.tool_calls, index));
+      }
+    } else {
+      throw unsupported(`messages[${index}].role`, `role '${message.role}'`);
+    }
+
+    if (content.length === 0) return;
+
+    // Anthropic requires alternating turns
+    const previous = messages[messages.length - 1];
+    if (previous?.role === role) {
+      previous.content.push(...content);
+    } else {
+      messages.push({ role, content });
+    }
+  });
+
+  const request: Record<string, unknown> = {
+    model,
+    messages,
+    max_tokens:
+      body.max_completion_tokens ?? body.max_tokens ?? DEFAULT_MAX_TOKENS,
+  };
+
+  if (system.length > 0) request.system = system.join("\n\n");
+  if (body.stream) request.stream = true;
+  if (body.temperature !== undefined && body.temperature !== null) {
+    request.temperature = body.temperature;
+  }
+  if (body.top_p !== undefined && body.top_p !== null) {
+    request.top_p = body.top_p;
+  }
+  if (body.stop) {
+    request.stop_sequences = Array.isArray(body.stop) ? body.stop : [body.stop];
+  }
+  if (body.user) request.metadata = { user_id: body.user };
+
+  if (body.tools && body.tools.length > 0) {
+    request.tools = convertTools(body.tools);
+  }
+  const toolChoice = convertToolChoice(
+    body.tool_choice,
+    body.parallel_tool_calls
+  );
+  if (toolChoice && request.tools) request.tool_choice = toolChoice;
+
+  return request;
+}
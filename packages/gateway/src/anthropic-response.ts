@@ -0,0 +1,249 @@
+import type { ResponseTranslator } from "./types.js";
+import { createSSETransform, formatSSE } from "./sse.js";
+
+// Anthropic Messages API response shapes (only the fields we translate)
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+}
+
+interface AnthropicMessage {
+  id?: string;
+  model?: string;
+  content?: AnthropicContentBlock[];
+  stop_reason?: string | null;
+  usage?: AnthropicUsage;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: AnthropicMessage;
+  index?: number;
+  content_block?: AnthropicContentBlock;
+  delta?: {
+    type?: string;
+    text?: string;
+    partial_json?: string;
+    stop_reason?: string | null;
+  };
+  usage?: AnthropicUsage;
+  error?: { type?: string; message?: string };
+}
+
+export interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  prompt_tokens_details?: { cached_tokens: number };
+}
+
+const FINISH_REASONS: Record<string, string> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  pause_turn: "stop",
+  max_tokens: "length",
+  tool_use: "tool_calls",
+  refusal: "content_filter",
+};
+
+export function mapStopReason(reason: string | null | undefined): string {
+  return (reason && FINISH_REASONS[reason]) || "stop";
+}
+
+export function mapUsage(usage: AnthropicUsage): OpenAIUsage {
+  const cached = usage.cache_read_input_tokens ?? 0;
+  const promptTokens =
+    (usage.input_tokens ?? 0) +
+    (usage.cache_creation_input_tokens ?? 0) +
+    cached;
+  const completionTokens = usage.output_tokens ?? 0;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    ...(cached > 0 && { prompt_tokens_details: { cached_tokens: cached } }),
+  };
+}
+
+function messageToCompletion(
+  message: AnthropicMessage,
+  fallbackModel: string
+): Record<string, unknown> {
+  const content = message.content ?? [];
+  const text = content
+    .filter((block) => block.type === "text")
+    .map((block) => block.text ?? "")
+    .join("");
+  const toolCalls = content
+    .filter((block) => block.type === "tool_use")
+    .map((block) => ({
+      id: block.id,
+      type: "function",
+      function: {
+        name: block.name,
+        arguments: JSON.stringify(block.input ?? {}),
+      },
+    }));
+
+  return {
+    id: message.id ?? `chatcmpl-${Date.now()}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: message.model ?? fallbackModel,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: text || (toolCalls.length > 0 ? null : ""),
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        },
+        finish_reason: mapStopReason(message.stop_reason),
+      },
+    ],
+    ...(message.usage && { usage: mapUsage(message.usage) }),
+  };
+}
+
+/**
+ * Translates Anthropic `/v1/messages` responses (JSON or SSE) into OpenAI
+ * `chat.completion` objects and `chat.completion.chunk` events.
+ */
+export function anthropicToOpenAI(options: {
+  model: string;
+  includeUsage: boolean;
+}): ResponseTranslator {
+  return {
+    json(body) {
+      return messageToCompletion(body as AnthropicMessage, options.model);
+    },
+
+    stream() {
+      let id = `chatcmpl-${Date.now()}`;
+      let model = options.model;
+      const created = Math.floor(Date.now() / 1000);
+      const usage: AnthropicUsage = {};
+      let done = false;
+      // Anthropic content block index -> OpenAI tool_calls index
+      const toolCalls = new Map<number, number>();
+
+      function chunk(
+        delta: Record<string, unknown>,
+        finishReason: string | null = null
+      ): string {
+        return formatSSE({
+          id,
+          object: "chat.completion.chunk",
+          created,
+          model,
+          choices: [{ index: 0, delta, finish_reason: finishReason }],
+        });
+      }
+
+      function finish(): string {
+        if (done) return "";
+        done = true;
+        let out = "";
+        if (options.includeUsage) {
+          out += formatSSE({
+            id,
+            object: "chat.completion.chunk",
+            created,
+            model,
+            choices: [],
+            usage: mapUsage(usage),
+          });
+        }
+        return out + formatSSE("[DONE]");
+      }
+
+      return createSSETransform(
+        ({ data }) => {
+          let event: AnthropicStreamEvent;
+          try {
+            event = JSON.parse(data) as AnthropicStreamEvent;
+          } catch {
+            return "";
+          }
+
+          switch (event.type) {
+            case "message_start":
+              id = event.message?.id ?? id;
+              model = event.message?.model ?? model;
+              Object.assign(usage, event.message?.usage);
+              return chunk({ role: "assistant", content: "" });
+
+            case "content_block_start": {
+              const block = event.content_block;
+              if (block?.type !== "tool_use") return "";
+              const toolIndex = toolCalls.size;
+              toolCalls.set(event.index ?? 0, toolIndex);
+              return chunk({
+                tool_calls: [
+                  {
+                    index: toolIndex,
+                    id: block.id,
+                    type: "function",
+                    function: { name: block.name, arguments: "" },
+                  },
+                ],
+              });
+            }
+
+            case "content_block_delta": {
+              if (event.delta?.type === "text_delta") {
+                return chunk({ content: event.delta.text ?? "" });
+              }
+              const toolIndex = toolCalls.get(event.index ?? 0);
+              if (
+                event.delta?.type === "input_json_delta" &&
+                toolIndex !== undefined
+              ) {
+                return chunk({
+                  tool_calls: [
+                    {
+                      index: toolIndex,
+                      function: { arguments: event.delta.partial_json ?? "" },
+                    },
+                  ],
+                });
+              }
+              return "";
+            }
+
+            case "message_delta":
+              Object.assign(usage, event.usage);
+              return chunk({}, mapStopReason(event.delta?.stop_reason));
+
+            case "message_stop":
+              return finish();
+
+            case "error":
+              return formatSSE({
+                error: {
+                  message: event.error?.message ?? "Upstream error",
+                  type: event.error?.type ?? "upstream_error",
+                },
+              });
+
+            default:
+              // ping and content_block_stop carry nothing to forward
+              return "";
+          }
+        },
+        // Always terminate with [DONE] even if message_stop never arrived
+        finish
+      );
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import type { Alias, AliasTarget } from "./types.js";
+
+// Per-request target order for an alias. The first target gets the request,
+// the others remain its fallback chain. State lives in module memory by
+// name, so it survives config reloads.
+
+// Weight of the newest sample in the time-to-first-byte average
+const LATENCY_ALPHA = 0.3;
+
+const inFlight = new Map<string, number>(); // By provider
+const latency = new Map<string, number>(); // EWMA in ms, by provider:model
+const rotation = new Map<string, number>(); // Next start index, by alias
+
+function targetId(target: AliasTarget): string {
+  return `${target.provider}:${target.model}`;
+}
+
+/**
+ * Counts a request to the provider as open until the returned function is
+ * called; calling it again has no effect.
+ */
+export function trackInFlight(provider: string): () => void {
+  inFlight.set(provider, (inFlight.get(provider) ?? 0) + 1);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    inFlight.set(provider, (inFlight.get(provider) ?? 1) - 1);
+  };
+}
+
+/** Feeds a time to first byte into the target's moving average */
+export function recordLatency(target: AliasTarget, ms: number): void {
+  const id = targetId(target);
+  const previous = latency.get(id);
+  latency.set(
+    id,
+    previous === undefined
+      ? ms
+      : LATENCY_ALPHA * ms + (1 - LATENCY_ALPHA) * previous
+  );
+}
+
+// Weighted random order without replacement; zero-weight targets go last,
+// so they are only used for fallback
+function weightedOrder(targets: AliasTarget[]): AliasTarget[] {
+  const remaining = targets.filter((target) => (target.weight ?? 1) > 0);
+  const order: AliasTarget[] = [];
+  while (remaining.length > 0) {
+    const total = remaining.reduce((sum, t) => sum + (t.weight ?? 1), 0);
+    let pick = Math.random() * total;
+    const index = remaining.findIndex((t) => (pick -= t.weight ?? 1) < 0);
+    order.push(...remaining.splice(index === -1 ? 0 : index, 1));
+  }
+  return [...order, ...targets.filter((target) => target.weight === 0)];
+}
+
+/** The order in which to try the alias's targets for one request */
+export function orderTargets(alias: Alias): AliasTarget[] {
+  const targets = alias.targets;
+  // Array.prototype.sort is stable: ties keep the configured order
+  switch (alias.strategy) {
+    case "weighted":
+      return weightedOrder(targets);
+    case "round_robin": {
+      const start = (rotation.get(alias.name) ?? 0) % targets.length;
+      rotation.set(alias.name, start + 1);
+      return [...targets.slice(start), ...targets.slice(0, start)];
+    }
+    case "least_in_flight":
+      return [...targets].sort(
+        (a, b) =>
+          (inFlight.get(a.provider) ?? 0) - (inFlight.get(b.provider) ?? 0)
+      );
+    case "lowest_latency":
+      // Targets without samples come first, so each gets measured
+      return [...targets].sort(
+        (a, b) =>
+          (latency.get(targetId(a)) ?? 0) - (latency.get(targetId(b)) ?? 0)
+      );
+    default:
+      return targets;
+  }
+}
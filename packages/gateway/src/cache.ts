@@ -0,0 +1,237 @@
+import type http from "node:http";
+import { createHash } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  stat,
+  unlink,
+  writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+import { log } from "./logger.js";
+import type { Alias, CacheBackend, CacheConfig } from "./types.js";
+
+// Response cache for deterministic (temperature 0) chat completions, keyed
+// on the normalized request body, the alias's targets and the gateway key
+// that asked, so keys never see each other's answers. Entries are kept
+// in least-recently-used order and evicted by count and total size. The disk
+// backend stores one JSON file per entry and indexes its directory on first
+// use, so entries outlive restarts.
+
+export interface CachedResponse {
+  provider: string; // Target that answered
+  model: string;
+  completion: unknown; // OpenAI chat completion
+}
+
+interface Entry {
+  size: number; // Bytes of the serialized response
+  storedAt: number;
+  response?: CachedResponse; // Memory backend only
+}
+
+interface Store {
+  backend: CacheBackend;
+  dir: string;
+  entries: Map<string, Entry>; // Least recently used first
+  bytes: number;
+  ready: Promise<void>; // Disk index loaded
+}
+
+// Request fields that change how the answer is delivered, not what it is
+const DELIVERY_FIELDS = ["stream", "stream_options"];
+
+let store: Store | null = null;
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (typeof value === "object" && value !== null) {
+    const object = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(object)
+        .sort()
+        .map((name) => [name, canonicalize(object[name])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Identifies a request: its body without delivery fields and with keys
+ * sorted, plus the targets the alias resolves to, so changing an alias
+ * doesn't serve answers from its old models, and the name of the gateway
+ * key (null without one).
+ */
+export function cacheKey(
+  alias: Alias,
+  body: Record<string, unknown>,
+  gatewayKey: string | null
+): string {
+  const request = Object.fromEntries(
+    Object.entries(body).filter(([name]) => !DELIVERY_FIELDS.includes(name))
+  );
+  const targets = alias.targets.map((t) => `${t.provider}:${t.model}`);
+  const normalized = canonicalize({
+    request: { ...request, model: alias.name },
+    targets,
+    key: gatewayKey,
+  });
+  return createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
+}
+
+/** Whether the request asks for a deterministic answer */
+export function isCacheable(body: Record<string, unknown>): boolean {
+  return body.temperature === 0;
+}
+
+export interface CachePolicy {
+  read: boolean;
+  write: boolean;
+}
+
+/**
+ * `x-passy-cache: bypass` skips the cache entirely. `Cache-Control:
+ * no-cache` fetches a fresh answer and stores it; `no-store` stores nothing.
+ */
+export function readCachePolicy(req: http.IncomingMessage): CachePolicy {
+  const override = req.headers["x-passy-cache"];
+  if (override?.toString().toLowerCase() === "bypass") {
+    return { read: false, write: false };
+  }
+  const directives = (req.headers["cache-control"] ?? "")
+    .toLowerCase()
+    .split(",")
+    .map((directive) => directive.trim());
+  const noStore = directives.includes("no-store");
+  return {
+    read: !noStore && !directives.includes("no-cache"),
+    write: !noStore,
+  };
+}
+
+function entryPath(dir: string, key: string): string {
+  return join(dir, `${key}.json`);
+}
+
+async function loadIndex(target: Store): Promise<void> {
+  await mkdir(target.dir, { recursive: true });
+  const names = (await readdir(target.dir)).filter((name) =>
+    name.endsWith(".json")
+  );
+  const found = await Promise.all(
+    names.map(async (name) => {
+      const info = await stat(join(target.dir, name));
+      return { key: name.slice(0, -5), size: info.size, at: info.mtimeMs };
+    })
+  );
+  found.sort((a, b) => a.at - b.at);
+  for (const { key, size, at } of found) {
+    target.entries.set(key, { size, storedAt: at });
+    target.bytes += size;
+  }
+}
+
+// The store survives reloads unless the backend or directory changes
+function openStore(config: CacheConfig): Store {
+  if (store?.backend === config.backend && store.dir === config.dir) {
+    return store;
+  }
+  const opened: Store = {
+    backend: config.backend,
+    dir: config.dir,
+    entries: new Map(),
+    bytes: 0,
+    ready: Promise.resolve(),
+  };
+  if (config.backend === "disk") {
+    opened.ready = loadIndex(opened).catch((err: Error) => {
+      log.error("Cannot read response cache", {
+        dir: config.dir,
+        error: err.message,
+      });
+    });
+  }
+  store = opened;
+  return opened;
+}
+
+function remove(target: Store, key: string, unlinkFile = true): void {
+  const entry = target.entries.get(key);
+  if (!entry) return;
+  target.entries.delete(key);
+  target.bytes -= entry.size;
+  if (target.backend === "disk" && unlinkFile) {
+    unlink(entryPath(target.dir, key)).catch(() => {}); // Already gone
+  }
+}
+
+/** Looks up a fresh cached response */
+export async function getCached(
+  config: CacheConfig,
+  key: string
+): Promise<CachedResponse | undefined> {
+  const target = openStore(config);
+  await target.ready;
+  const entry = target.entries.get(key);
+  if (!entry) return undefined;
+  if (Date.now() - entry.storedAt >= config.ttl) {
+    remove(target, key);
+    return undefined;
+  }
+  target.entries.delete(key);
+  target.entries.set(key, entry);
+  if (entry.response) return entry.response;
+
+  try {
+    const text = await readFile(entryPath(target.dir, key), "utf8");
+    return JSON.parse(text) as CachedResponse;
+  } catch {
+    remove(target, key);
+    return undefined;
+  }
+}
+
+/** Stores a response, evicting the least recently used ones over the limits */
+export async function putCached(
+  config: CacheConfig,
+  key: string,
+  response: CachedResponse
+): Promise<void> {
+  const target = openStore(config);
+  await target.ready;
+  const text = JSON.stringify(response);
+  const size = Buffer.byteLength(text);
+  if (size > config.maxBytes) return;
+
+  // A replaced file is overwritten below rather than unlinked
+  remove(target, key, false);
+  if (target.backend === "disk") {
+    try {
+      await writeFile(entryPath(target.dir, key), text);
+    } catch (err) {
+      log.error("Cannot write response cache", {
+        dir: target.dir,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return;
+    }
+  }
+  target.entries.set(key, {
+    size,
+    storedAt: Date.now(),
+    // A copy, so later changes to the caller's object don't leak in
+    ...(target.backend === "memory" && {
+      response: JSON.parse(text) as CachedResponse,
+    }),
+  });
+  target.bytes += size;
+
+  while (
+    target.entries.size > config.maxEntries ||
+    target.bytes > config.maxBytes
+  ) {
+    const oldest = target.entries.keys().next().value as string;
+    remove(target, oldest);
+  }
+}
@@ -0,0 +1,160 @@
+import type {
+  CircuitBreaker,
+  CircuitBreakerConfig,
+  FailureKind,
+  Provider,
+} from "./types.js";
+import { log, redact } from "./logger.js";
+
+// Per-provider circuit breaker, fed passively by the outcome of proxied
+// requests. Open circuits are skipped by fallback until the cooldown has
+// passed; then a few probe requests decide whether to close it again.
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerConfig = {
+  enabled: true,
+  failureThreshold: 5,
+  minRequests: 10,
+  window: 60000,
+  cooldown: 30000,
+  halfOpenProbes: 1,
+};
+
+// Failures that say something about the provider rather than the request
+const BREAKING_KINDS: FailureKind[] = ["5xx", "timeout", "network"];
+
+export function createCircuit(): CircuitBreaker {
+  return { state: "closed", failures: 0, outcomes: [], probes: 0 };
+}
+
+function open(provider: Provider, reason: string, now: number): void {
+  const circuit = provider.circuit;
+  circuit.state = "open";
+  circuit.openedAt = now;
+  circuit.probes = 0;
+  log.warn("Circuit opened", {
+    provider: provider.name,
+    reason,
+    cooldown_ms: provider.circuitBreaker.cooldown,
+  });
+}
+
+// Reset in place: a reloaded config may share this provider's circuit
+function close(provider: Provider): void {
+  Object.assign(provider.circuit, createCircuit(), {
+    openedAt: undefined,
+    probedAt: undefined,
+    lastError: undefined,
+  });
+  log.info("Circuit closed", { provider: provider.name });
+}
+
+function record(provider: Provider, failed: boolean, now: number): void {
+  const { circuit, circuitBreaker: config } = provider;
+  circuit.outcomes.push({ at: now, failed });
+  const start = now - config.window;
+  while (circuit.outcomes.length > 0 && circuit.outcomes[0].at < start) {
+    circuit.outcomes.shift();
+  }
+}
+
+/**
+ * Whether a request may be sent to the provider. While half-open this takes
+ * one of the probe slots, so call it only right before sending.
+ */
+export function allowRequest(provider: Provider, now = Date.now()): boolean {
+  const { circuit, circuitBreaker: config } = provider;
+  if (!config.enabled || circuit.state === "closed") return true;
+
+  if (circuit.state === "open") {
+    if (now - (circuit.openedAt ?? 0) < config.cooldown) return false;
+    circuit.state = "half_open";
+    circuit.probes = 0;
+    log.info("Circuit half-open, probing", { provider: provider.name });
+  }
+
+  // A probe whose client went away never reports back; free its slot
+  // after another cooldown rather than staying half-open forever
+  if (circuit.probedAt && now - circuit.probedAt >= config.cooldown) {
+    circuit.probes = 0;
+  }
+  if (circuit.probes >= config.halfOpenProbes) return false;
+  circuit.probes++;
+  circuit.probedAt = now;
+  return true;
+}
+
+/**
+ * Gives back the probe slot taken by `allowRequest` when the provider was
+ * skipped without being sent the request after all
+ */
+export function releaseProbe(provider: Provider): void {
+  const circuit = provider.circuit;
+  if (circuit.state === "half_open" && circuit.probes > 0) circuit.probes--;
+}
+
+/** Reports a response from the provider that the client was given */
+export function recordSuccess(provider: Provider, now = Date.now()): void {
+  if (!provider.circuitBreaker.enabled) return;
+  if (provider.circuit.state === "half_open") {
+    close(provider);
+    return;
+  }
+  provider.circuit.failures = 0;
+  record(provider, false, now);
+}
+
+/** Reports a failed attempt; only provider-side failures count */
+export function recordFailure(
+  provider: Provider,
+  kind: FailureKind,
+  message: string,
+  now = Date.now()
+): void {
+  const { circuit, circuitBreaker: config } = provider;
+  if (!config.enabled || !BREAKING_KINDS.includes(kind)) return;
+  circuit.lastError = message;
+
+  if (circuit.state === "half_open") {
+    open(provider, `probe failed: ${message}`, now);
+    return;
+  }
+  if (circuit.state === "open") return;
+
+  circuit.failures++;
+  record(provider, true, now);
+  if (circuit.failures >= config.failureThreshold) {
+    open(provider, `${circuit.failures} consecutive failures`, now);
+    return;
+  }
+  const failed = circuit.outcomes.filter((outcome) => outcome.failed).length;
+  const total = circuit.outcomes.length;
+  if (
+    config.errorRate !== undefined &&
+    total >= config.minRequests &&
+    failed / total >= config.errorRate
+  ) {
+    open(provider, `${failed} of ${total} attempts failed`, now);
+  }
+}
+
+/** Breaker state for /health */
+export function circuitStatus(provider: Provider, now = Date.now()) {
+  const { circuit, circuitBreaker: config } = provider;
+  if (!config.enabled) return { state: "disabled" };
+  const recent = circuit.outcomes.filter(
+    (outcome) => outcome.at >= now - config.window
+  );
+  return {
+    state: circuit.state,
+    consecutive_failures: circuit.failures,
+    window_failures: recent.filter((outcome) => outcome.failed).length,
+    window_requests: recent.length,
+    ...(circuit.state === "open" && {
+      retry_in_ms: Math.max(
+        0,
+        (circuit.openedAt ?? now) + config.cooldown - now
+      ),
+    }),
+    ...(circuit.lastError && { last_error: redact(circuit.lastError) }),
+  };
+}
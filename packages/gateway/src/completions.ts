@@ -0,0 +1,154 @@
+import type { ResponseTranslator } from "./types.js";
+import { InvalidRequestError } from "./errors.js";
+import { createSSETransform, formatSSE } from "./sse.js";
+
+// Legacy OpenAI text completions (/v1/completions), served by sending the
+// prompt as a single user message to chat completions and turning the
+// answer back into `text_completion` objects and chunks
+
+export interface CompletionsRequest {
+  model?: string;
+  prompt?: unknown;
+  stream?: boolean;
+  [key: string]: unknown;
+}
+
+interface ChatChoice {
+  index?: number;
+  message?: { content?: string | null };
+  delta?: { content?: string | null };
+  finish_reason?: string | null;
+}
+
+interface ChatCompletion {
+  id?: string;
+  created?: number;
+  model?: string;
+  choices?: ChatChoice[];
+  usage?: unknown;
+  error?: unknown;
+}
+
+// Passed on to chat completions as they are
+const CHAT_PARAMS = [
+  "model",
+  "max_tokens",
+  "temperature",
+  "top_p",
+  "n",
+  "stream",
+  "stream_options",
+  "stop",
+  "presence_penalty",
+  "frequency_penalty",
+  "logit_bias",
+  "seed",
+  "user",
+];
+
+// Completion parameters chat completions have no equivalent for, with the
+// value that leaves them off
+const UNSUPPORTED_PARAMS: Record<string, unknown> = {
+  suffix: null,
+  echo: false,
+  logprobs: null,
+  best_of: 1,
+};
+
+function unsupported(param: string): InvalidRequestError {
+  return new InvalidRequestError(
+    `Parameter '${param}' is not supported by /v1/completions`,
+    param,
+    "unsupported_parameter"
+  );
+}
+
+/**
+ * Builds a chat completion request from a legacy completion request. Only
+ * a single text prompt can be expressed as a chat turn.
+ */
+export function completionsToChat(
+  body: CompletionsRequest
+): Record<string, unknown> {
+  for (const [param, neutral] of Object.entries(UNSUPPORTED_PARAMS)) {
+    const value = body[param];
+    if (value !== undefined && value !== null && value !== neutral) {
+      throw unsupported(param);
+    }
+  }
+
+  let prompt = body.prompt;
+  if (Array.isArray(prompt) && prompt.length === 1) prompt = prompt[0];
+  if (typeof prompt !== "string") {
+    throw new InvalidRequestError(
+      "'prompt' must be a single string",
+      "prompt",
+      "unsupported_parameter"
+    );
+  }
+
+  const request: Record<string, unknown> = {
+    messages: [{ role: "user", content: prompt }],
+  };
+  for (const param of CHAT_PARAMS) {
+    if (body[param] !== undefined) request[param] = body[param];
+  }
+  return request;
+}
+
+function completionId(id: string | undefined): string {
+  const suffix = id?.replace(/^chatcmpl-/, "") ?? String(Date.now());
+  return `cmpl-${suffix}`;
+}
+
+/**
+ * Translates OpenAI chat completion responses (JSON or SSE) into legacy
+ * `text_completion` objects and chunks.
+ */
+export function chatToCompletions(options: {
+  model: string;
+}): ResponseTranslator {
+  function convert(completion: ChatCompletion, streamed: boolean) {
+    return {
+      id: completionId(completion.id),
+      object: "text_completion",
+      created: completion.created ?? Math.floor(Date.now() / 1000),
+      model: completion.model ?? options.model,
+      choices: (completion.choices ?? []).map((choice) => ({
+        text:
+          (streamed ? choice.delta?.content : choice.message?.content) ?? "",
+        index: choice.index ?? 0,
+        logprobs: null,
+        finish_reason: choice.finish_reason ?? null,
+      })),
+      ...(completion.usage !== undefined && { usage: completion.usage }),
+    };
+  }
+
+  return {
+    json(body) {
+      return convert(body as ChatCompletion, false);
+    },
+
+    stream() {
+      return createSSETransform(({ data }) => {
+        if (data === "[DONE]") return formatSSE(data);
+        let chunk: ChatCompletion;
+        try {
+          chunk = JSON.parse(data) as ChatCompletion;
+        } catch {
+          return "";
+        }
+        if (chunk.error) return formatSSE(data);
+
+        // Role-only and tool call deltas carry no text
+        const converted = convert(chunk, true);
+        const choices = converted.choices.filter(
+          (choice) => choice.text || choice.finish_reason
+        );
+        if (choices.length === 0 && !chunk.usage) return "";
+        return formatSSE({ ...converted, choices });
+      });
+    },
+  };
+}
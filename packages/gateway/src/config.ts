@@ -0,0 +1,865 @@
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { ConfigError } from "./errors.js";
+import { AUTH_SCHEMES, PROVIDER_TYPES } from "./providers.js";
+import type {
+  AliasKind,
+  AliasTarget,
+  AuthScheme,
+  BalanceStrategy,
+  CacheBackend,
+  CacheConfig,
+  CircuitBreakerConfig,
+  DiscoveryConfig,
+  FailureKind,
+  KeyRotation,
+  LogConfig,
+  ModelCapabilities,
+  ModelPrice,
+  PassthroughConfig,
+  ProviderType,
+  RateLimit,
+  Timeouts,
+} from "./types.js";
+
+// Declarative configuration file (mini-passy.config.yaml / .json)
+
+export const CONFIG_FILE_NAMES = [
+  "mini-passy.config.yaml",
+  "mini-passy.config.yml",
+  "mini-passy.config.json",
+];
+
+export const BALANCE_STRATEGIES: BalanceStrategy[] = [
+  "priority",
+  "weighted",
+  "round_robin",
+  "least_in_flight",
+  "lowest_latency",
+];
+
+export const ALIAS_KINDS: AliasKind[] = ["chat", "embeddings"];
+
+export const KEY_ROTATIONS: KeyRotation[] = [
+  "round_robin",
+  "least_recently_limited",
+];
+
+export const FAILURE_KINDS: FailureKind[] = [
+  "5xx",
+  "4xx",
+  "rate_limit",
+  "timeout",
+  "network",
+];
+
+export interface ProviderConfig {
+  url?: string;
+  type?: ProviderType;
+  basePath?: string;
+  authScheme?: AuthScheme;
+  apiVersion?: string;
+  embeddings?: boolean;
+  embeddingBatchSize?: number;
+  key?: string;
+  keys?: string[]; // Key pool; `key` is added as its first entry
+  keyless?: boolean; // Runs without a key; default by type (ollama only)
+  keyRotation?: KeyRotation;
+  headers?: Record<string, string>;
+  timeouts?: Timeouts;
+  rateLimit?: RateLimit;
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+}
+
+export type AliasTargetConfig = AliasTarget;
+
+export interface AliasConfig {
+  kind?: AliasKind;
+  targets: AliasTargetConfig[];
+  strategy?: BalanceStrategy;
+  fallbackOn?: string[];
+  timeouts?: Timeouts;
+  rateLimit?: RateLimit;
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  capabilities?: Partial<ModelCapabilities>;
+}
+
+export interface KeyConfig {
+  hash: string; // Hex sha256 of the key
+  aliases?: string[];
+  admin?: boolean;
+  quota?: { requestsPerDay?: number; tokensPerDay?: number };
+  rateLimit?: RateLimit;
+  expiresAt?: string; // ISO 8601 date or timestamp
+}
+
+export interface UsageFileConfig {
+  file?: string;
+  prices?: Record<string, Record<string, ModelPrice>>;
+}
+
+export interface FileConfig {
+  server: { port?: number; authKey?: string };
+  fallback: { on?: string[] };
+  timeouts: Timeouts;
+  circuitBreaker: Partial<CircuitBreakerConfig>;
+  keys: Record<string, KeyConfig>;
+  providers: Record<string, ProviderConfig>;
+  aliases: Record<string, AliasConfig>;
+  usage?: UsageFileConfig;
+  cache?: Partial<CacheConfig>;
+  passthrough?: Partial<PassthroughConfig>;
+  discovery: Partial<DiscoveryConfig>;
+  logging: Partial<LogConfig>;
+}
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function expectObject(value: unknown, path: string): Json {
+  if (!isObject(value)) throw new ConfigError(path, "expected an object");
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string" || value === "") {
+    throw new ConfigError(path, "expected a non-empty string");
+  }
+  return value;
+}
+
+function expectInteger(value: unknown, path: string, min = 0): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min) {
+    throw new ConfigError(path, `expected an integer >= ${min}`);
+  }
+  return value;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new ConfigError(path, "expected a number >= 0");
+  }
+  return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean")
+    throw new ConfigError(path, "expected true or false");
+  return value;
+}
+
+function expectStringList(value: unknown, path: string): string[] {
+  if (!Array.isArray(value)) throw new ConfigError(path, "expected a list");
+  return value.map((item, i) => expectString(item, `${path}[${i}]`));
+}
+
+/** Checks a value against a fixed list, e.g. a log level */
+export function expectOneOf<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  path: string
+): T {
+  if (!allowed.includes(value as T)) {
+    throw new ConfigError(path, `expected one of: ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+function checkKeys(object: Json, allowed: string[], path: string): void {
+  for (const key of Object.keys(object)) {
+    if (!allowed.includes(key)) {
+      const prefix = path ? `${path}.` : "";
+      throw new ConfigError(
+        `${prefix}${key}`,
+        `unknown key (expected one of: ${allowed.join(", ")})`
+      );
+    }
+  }
+}
+
+/**
+ * Replaces `${NAME}` references in every string value with the matching
+ * environment variable, so secrets can stay out of the file. `${NAME:-text}`
+ * falls back to `text` when NAME is unset or empty; a bare `${NAME}` must be
+ * set. A value left empty by interpolation is dropped, as if never written.
+ */
+export function interpolate(
+  value: unknown,
+  env: NodeJS.ProcessEnv,
+  path = ""
+): unknown {
+  if (typeof value === "string") {
+    const result = value.replace(
+      /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g,
+      (_, name: string, fallback: string | undefined) => {
+        const resolved = env[name];
+        if (fallback !== undefined) return resolved || fallback;
+        if (resolved === undefined) {
+          throw new ConfigError(
+            path,
+            `environment variable ${name} is not set (use \${${name}:-} to make it optional)`
+          );
+        }
+        return resolved;
+      }
+    );
+    return result === "" && value !== "" ? undefined : result;
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map((item, i) => interpolate(item, env, `${path}[${i}]`))
+      .filter((item) => item !== undefined);
+  }
+  if (isObject(value)) {
+    const result: Json = {};
+    for (const [key, item] of Object.entries(value)) {
+      const resolved = interpolate(item, env, path ? `${path}.${key}` : key);
+      if (resolved !== undefined) result[key] = resolved;
+    }
+    return result;
+  }
+  return value;
+}
+
+function validateFailureKinds(value: unknown, path: string): string[] {
+  if (!Array.isArray(value)) throw new ConfigError(path, "expected a list");
+  return value.map((kind, i) => {
+    if (!FAILURE_KINDS.includes(kind)) {
+      throw new ConfigError(
+        `${path}[${i}]`,
+        `expected one of: ${FAILURE_KINDS.join(", ")}`
+      );
+    }
+    return kind;
+  });
+}
+
+// Config key -> Timeouts field; values are milliseconds, 0 disables a limit
+const TIMEOUT_KEYS = ["connect", "firstByte", "total", "idle"] as const;
+
+function validateTimeouts(value: unknown, path: string): Timeouts {
+  const object = expectObject(value, path);
+  checkKeys(object, [...TIMEOUT_KEYS], path);
+  const timeouts: Timeouts = {};
+  for (const key of TIMEOUT_KEYS) {
+    if (object[key] !== undefined) {
+      timeouts[key] = expectInteger(object[key], `${path}.${key}`);
+    }
+  }
+  return timeouts;
+}
+
+const RATE_LIMIT_KEYS = ["requestsPerMinute", "tokensPerMinute"] as const;
+
+function validateRateLimit(value: unknown, path: string): RateLimit {
+  const object = expectObject(value, path);
+  checkKeys(object, [...RATE_LIMIT_KEYS], path);
+  const rateLimit: RateLimit = {};
+  for (const key of RATE_LIMIT_KEYS) {
+    if (object[key] !== undefined) {
+      rateLimit[key] = expectInteger(object[key], `${path}.${key}`, 1);
+    }
+  }
+  return rateLimit;
+}
+
+const CIRCUIT_BREAKER_KEYS = [
+  "enabled",
+  "failureThreshold",
+  "errorRate",
+  "minRequests",
+  "window",
+  "cooldown",
+  "halfOpenProbes",
+];
+
+function validateCircuitBreaker(
+  value: unknown,
+  path: string
+): Partial<CircuitBreakerConfig> {
+  const object = expectObject(value, path);
+  checkKeys(object, CIRCUIT_BREAKER_KEYS, path);
+  const breaker: Partial<CircuitBreakerConfig> = {};
+
+  if (object.enabled !== undefined) {
+    breaker.enabled = expectBoolean(object.enabled, `${path}.enabled`);
+  }
+  if (object.errorRate !== undefined) {
+    const rate = expectNumber(object.errorRate, `${path}.errorRate`);
+    if (rate > 1) {
+      throw new ConfigError(`${path}.errorRate`, "expected a number <= 1");
+    }
+    breaker.errorRate = rate;
+  }
+  for (const key of [
+    "failureThreshold",
+    "minRequests",
+    "halfOpenProbes",
+  ] as const) {
+    if (object[key] !== undefined) {
+      breaker[key] = expectInteger(object[key], `${path}.${key}`, 1);
+    }
+  }
+  for (const key of ["window", "cooldown"] as const) {
+    if (object[key] !== undefined) {
+      breaker[key] = expectInteger(object[key], `${path}.${key}`);
+    }
+  }
+  return breaker;
+}
+
+/** Parses a `provider:model` reference; the model may itself contain colons */
+export function parseTargetRef(
+  value: string,
+  defaultModel?: string
+): AliasTargetConfig | null {
+  const colon = value.indexOf(":");
+  const provider = (colon === -1 ? value : value.slice(0, colon)).trim();
+  const model = colon === -1 ? defaultModel : value.slice(colon + 1).trim();
+  if (!provider || !model) return null;
+  return { provider: provider.toLowerCase(), model };
+}
+
+function validateTarget(value: unknown, path: string): AliasTargetConfig {
+  if (typeof value === "string") {
+    const target = parseTargetRef(value);
+    if (!target) {
+      throw new ConfigError(path, 'expected "provider:model"');
+    }
+    return target;
+  }
+  const object = expectObject(value, path);
+  checkKeys(object, ["provider", "model", "weight"], path);
+  const target: AliasTargetConfig = {
+    provider: expectString(object.provider, `${path}.provider`).toLowerCase(),
+    model: expectString(object.model, `${path}.model`),
+  };
+  if (object.weight !== undefined) {
+    target.weight = expectNumber(object.weight, `${path}.weight`);
+  }
+  return target;
+}
+
+function validateProvider(value: unknown, path: string): ProviderConfig {
+  const object = expectObject(value, path);
+  checkKeys(
+    object,
+    [
+      "url",
+      "type",
+      "basePath",
+      "authScheme",
+      "apiVersion",
+      "embeddings",
+      "embeddingBatchSize",
+      "key",
+      "keys",
+      "keyless",
+      "keyRotation",
+      "headers",
+      "timeouts",
+      "rateLimit",
+      "circuitBreaker",
+    ],
+    path
+  );
+  const provider: ProviderConfig = {};
+
+  if (object.url !== undefined) {
+    provider.url = expectString(object.url, `${path}.url`);
+    try {
+      new URL(provider.url);
+    } catch {
+      throw new ConfigError(`${path}.url`, "expected an absolute URL");
+    }
+  }
+  if (object.type !== undefined) {
+    provider.type = expectOneOf(object.type, PROVIDER_TYPES, `${path}.type`);
+  }
+  if (object.basePath !== undefined) {
+    // "" makes the URL itself the API root
+    if (typeof object.basePath !== "string") {
+      throw new ConfigError(`${path}.basePath`, "expected a string");
+    }
+    provider.basePath = object.basePath;
+  }
+  if (object.authScheme !== undefined) {
+    provider.authScheme = expectOneOf(
+      object.authScheme,
+      AUTH_SCHEMES,
+      `${path}.authScheme`
+    );
+  }
+  if (object.apiVersion !== undefined) {
+    provider.apiVersion = expectString(object.apiVersion, `${path}.apiVersion`);
+  }
+  if (object.embeddings !== undefined) {
+    provider.embeddings = expectBoolean(
+      object.embeddings,
+      `${path}.embeddings`
+    );
+  }
+  if (object.embeddingBatchSize !== undefined) {
+    provider.embeddingBatchSize = expectInteger(
+      object.embeddingBatchSize,
+      `${path}.embeddingBatchSize`,
+      1
+    );
+  }
+  if (object.key !== undefined) {
+    provider.key = expectString(object.key, `${path}.key`);
+  }
+  if (object.keys !== undefined) {
+    provider.keys = expectStringList(object.keys, `${path}.keys`);
+  }
+  if (object.keyless !== undefined) {
+    provider.keyless = expectBoolean(object.keyless, `${path}.keyless`);
+  }
+  if (object.keyRotation !== undefined) {
+    provider.keyRotation = expectOneOf(
+      object.keyRotation,
+      KEY_ROTATIONS,
+      `${path}.keyRotation`
+    );
+  }
+  if (object.headers !== undefined) {
+    const headers = expectObject(object.headers, `${path}.headers`);
+    provider.headers = {};
+    for (const [name, header] of Object.entries(headers)) {
+      provider.headers[name] = expectString(header, `${path}.headers.${name}`);
+    }
+  }
+  if (object.timeouts !== undefined) {
+    provider.timeouts = validateTimeouts(object.timeouts, `${path}.timeouts`);
+  }
+  if (object.rateLimit !== undefined) {
+    provider.rateLimit = validateRateLimit(
+      object.rateLimit,
+      `${path}.rateLimit`
+    );
+  }
+  if (object.circuitBreaker !== undefined) {
+    provider.circuitBreaker = validateCircuitBreaker(
+      object.circuitBreaker,
+      `${path}.circuitBreaker`
+    );
+  }
+  return provider;
+}
+
+function validateKey(value: unknown, path: string): KeyConfig {
+  const object = expectObject(value, path);
+  checkKeys(
+    object,
+    ["hash", "aliases", "admin", "quota", "rateLimit", "expiresAt"],
+    path
+  );
+
+  // `sha256:` prefix is optional, as printed by common tools
+  const hash = expectString(object.hash, `${path}.hash`)
+    .replace(/^sha256:/, "")
+    .toLowerCase();
+  if (!/^[0-9a-f]{64}$/.test(hash)) {
+    throw new ConfigError(`${path}.hash`, "expected a hex sha256 digest");
+  }
+  const key: KeyConfig = { hash };
+
+  if (object.aliases !== undefined) {
+    key.aliases = expectStringList(object.aliases, `${path}.aliases`).map(
+      (alias) => alias.toLowerCase()
+    );
+  }
+  if (object.admin !== undefined) {
+    key.admin = expectBoolean(object.admin, `${path}.admin`);
+  }
+  if (object.quota !== undefined) {
+    const quota = expectObject(object.quota, `${path}.quota`);
+    checkKeys(quota, ["requestsPerDay", "tokensPerDay"], `${path}.quota`);
+    key.quota = {};
+    for (const field of ["requestsPerDay", "tokensPerDay"] as const) {
+      if (quota[field] !== undefined) {
+        key.quota[field] = expectInteger(
+          quota[field],
+          `${path}.quota.${field}`
+        );
+      }
+    }
+  }
+  if (object.rateLimit !== undefined) {
+    key.rateLimit = validateRateLimit(object.rateLimit, `${path}.rateLimit`);
+  }
+  if (object.expiresAt !== undefined) {
+    key.expiresAt = expectString(object.expiresAt, `${path}.expiresAt`);
+    if (Number.isNaN(Date.parse(key.expiresAt))) {
+      throw new ConfigError(`${path}.expiresAt`, "expected an ISO 8601 date");
+    }
+  }
+  return key;
+}
+
+const CAPABILITIES = ["tools", "vision", "streaming"] as const;
+
+function validateCapabilities(
+  value: unknown,
+  path: string
+): Partial<ModelCapabilities> {
+  const object = expectObject(value, path);
+  checkKeys(object, [...CAPABILITIES], path);
+  const capabilities: Partial<ModelCapabilities> = {};
+  for (const name of CAPABILITIES) {
+    if (object[name] !== undefined) {
+      capabilities[name] = expectBoolean(object[name], `${path}.${name}`);
+    }
+  }
+  return capabilities;
+}
+
+function validateAlias(value: unknown, path: string): AliasConfig {
+  // Shorthand: `gpt4o: openai:gpt-4o`
+  if (typeof value === "string") {
+    return { targets: [validateTarget(value, path)] };
+  }
+
+  const object = expectObject(value, path);
+  checkKeys(
+    object,
+    [
+      "kind",
+      "targets",
+      "strategy",
+      "fallbackOn",
+      "timeouts",
+      "rateLimit",
+      "contextWindow",
+      "maxOutputTokens",
+      "capabilities",
+    ],
+    path
+  );
+
+  if (!Array.isArray(object.targets) || object.targets.length === 0) {
+    throw new ConfigError(`${path}.targets`, "expected a non-empty list");
+  }
+  const alias: AliasConfig = {
+    targets: object.targets.map((target, i) =>
+      validateTarget(target, `${path}.targets[${i}]`)
+    ),
+  };
+  if (object.kind !== undefined) {
+    alias.kind = expectOneOf(object.kind, ALIAS_KINDS, `${path}.kind`);
+  }
+  if (object.strategy !== undefined) {
+    alias.strategy = expectOneOf(
+      object.strategy,
+      BALANCE_STRATEGIES,
+      `${path}.strategy`
+    );
+  }
+  if (object.fallbackOn !== undefined) {
+    alias.fallbackOn = validateFailureKinds(
+      object.fallbackOn,
+      `${path}.fallbackOn`
+    );
+  }
+  if (object.timeouts !== undefined) {
+    alias.timeouts = validateTimeouts(object.timeouts, `${path}.timeouts`);
+  }
+  if (object.rateLimit !== undefined) {
+    alias.rateLimit = validateRateLimit(object.rateLimit, `${path}.rateLimit`);
+  }
+  for (const field of ["contextWindow", "maxOutputTokens"] as const) {
+    if (object[field] !== undefined) {
+      alias[field] = expectInteger(object[field], `${path}.${field}`, 1);
+    }
+  }
+  if (object.capabilities !== undefined) {
+    alias.capabilities = validateCapabilities(
+      object.capabilities,
+      `${path}.capabilities`
+    );
+  }
+  return alias;
+}
+
+function validateUsage(value: unknown, path: string): UsageFileConfig {
+  const object = expectObject(value, path);
+  checkKeys(object, ["file", "prices"], path);
+  const usage: UsageFileConfig = {};
+
+  if (object.file !== undefined) {
+    usage.file = expectString(object.file, `${path}.file`);
+  }
+  if (object.prices !== undefined) {
+    usage.prices = {};
+    const providers = expectObject(object.prices, `${path}.prices`);
+    for (const [provider, value] of Object.entries(providers)) {
+      const providerPath = `${path}.prices.${provider}`;
+      const models = expectObject(value, providerPath);
+      const prices: Record<string, ModelPrice> = {};
+      for (const [model, price] of Object.entries(models)) {
+        const pricePath = `${providerPath}.${model}`;
+        const fields = expectObject(price, pricePath);
+        checkKeys(fields, ["input", "output"], pricePath);
+        prices[model] = {
+          input: expectNumber(fields.input, `${pricePath}.input`),
+          output: expectNumber(fields.output, `${pricePath}.output`),
+        };
+      }
+      usage.prices[provider.toLowerCase()] = prices;
+    }
+  }
+  return usage;
+}
+
+export const CACHE_BACKENDS: CacheBackend[] = ["memory", "disk"];
+
+function validateCache(value: unknown, path: string): Partial<CacheConfig> {
+  const object = expectObject(value, path);
+  checkKeys(object, ["backend", "ttl", "maxEntries", "maxBytes", "dir"], path);
+  const cache: Partial<CacheConfig> = {};
+
+  if (object.backend !== undefined) {
+    cache.backend = expectOneOf(
+      object.backend,
+      CACHE_BACKENDS,
+      `${path}.backend`
+    );
+  }
+  if (object.ttl !== undefined) {
+    cache.ttl = expectInteger(object.ttl, `${path}.ttl`, 1);
+  }
+  if (object.maxEntries !== undefined) {
+    cache.maxEntries = expectInteger(
+      object.maxEntries,
+      `${path}.maxEntries`,
+      1
+    );
+  }
+  if (object.maxBytes !== undefined) {
+    cache.maxBytes = expectInteger(object.maxBytes, `${path}.maxBytes`, 1);
+  }
+  if (object.dir !== undefined) {
+    cache.dir = expectString(object.dir, `${path}.dir`);
+  }
+  return cache;
+}
+
+function validatePassthrough(
+  value: unknown,
+  path: string
+): Partial<PassthroughConfig> {
+  const object = expectObject(value, path);
+  checkKeys(object, ["allow", "deny", "listModels"], path);
+  const passthrough: Partial<PassthroughConfig> = {};
+
+  for (const list of ["allow", "deny"] as const) {
+    if (object[list] !== undefined) {
+      passthrough[list] = expectStringList(object[list], `${path}.${list}`);
+    }
+  }
+  if (object.listModels !== undefined) {
+    passthrough.listModels = expectBoolean(
+      object.listModels,
+      `${path}.listModels`
+    );
+  }
+  return passthrough;
+}
+
+const DISCOVERY_KEYS = [
+  "timeout",
+  "refreshInterval",
+  "retryDelay",
+  "maxRetryDelay",
+] as const;
+
+function validateDiscovery(
+  value: unknown,
+  path: string
+): Partial<DiscoveryConfig> {
+  const object = expectObject(value, path);
+  checkKeys(object, [...DISCOVERY_KEYS], path);
+  const discovery: Partial<DiscoveryConfig> = {};
+  for (const name of DISCOVERY_KEYS) {
+    if (object[name] === undefined) continue;
+    // A refresh interval of 0 turns scheduled refreshes off
+    const min = name === "refreshInterval" ? 0 : 1;
+    discovery[name] = expectInteger(object[name], `${path}.${name}`, min);
+  }
+  return discovery;
+}
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export const LOG_FORMATS = ["json", "text"] as const;
+
+function validateLogging(value: unknown, path: string): Partial<LogConfig> {
+  const object = expectObject(value, path);
+  checkKeys(object, ["level", "format", "bodies"], path);
+  const logging: Partial<LogConfig> = {};
+
+  if (object.level !== undefined) {
+    logging.level = expectOneOf(object.level, LOG_LEVELS, `${path}.level`);
+  }
+  if (object.format !== undefined) {
+    logging.format = expectOneOf(object.format, LOG_FORMATS, `${path}.format`);
+  }
+  if (object.bodies !== undefined) {
+    logging.bodies = expectBoolean(object.bodies, `${path}.bodies`);
+  }
+  return logging;
+}
+
+/** Validates a parsed (and interpolated) config file */
+export function validateConfig(raw: unknown): FileConfig {
+  const root = expectObject(raw ?? {}, "");
+  checkKeys(
+    root,
+    [
+      "server",
+      "fallback",
+      "timeouts",
+      "circuitBreaker",
+      "keys",
+      "providers",
+      "aliases",
+      "usage",
+      "cache",
+      "passthrough",
+      "discovery",
+      "logging",
+    ],
+    ""
+  );
+
+  const config: FileConfig = {
+    server: {},
+    fallback: {},
+    timeouts: {},
+    circuitBreaker: {},
+    keys: {},
+    providers: {},
+    aliases: {},
+    discovery: {},
+    logging: {},
+  };
+
+  if (root.server !== undefined) {
+    const server = expectObject(root.server, "server");
+    checkKeys(server, ["port", "authKey"], "server");
+    if (server.port !== undefined) {
+      config.server.port = expectInteger(server.port, "server.port");
+    }
+    if (server.authKey !== undefined) {
+      config.server.authKey = expectString(server.authKey, "server.authKey");
+    }
+  }
+
+  if (root.fallback !== undefined) {
+    const fallback = expectObject(root.fallback, "fallback");
+    checkKeys(fallback, ["on"], "fallback");
+    if (fallback.on !== undefined) {
+      config.fallback.on = validateFailureKinds(fallback.on, "fallback.on");
+    }
+  }
+
+  if (root.timeouts !== undefined) {
+    config.timeouts = validateTimeouts(root.timeouts, "timeouts");
+  }
+
+  if (root.circuitBreaker !== undefined) {
+    config.circuitBreaker = validateCircuitBreaker(
+      root.circuitBreaker,
+      "circuitBreaker"
+    );
+  }
+
+  if (root.keys !== undefined) {
+    const keys = expectObject(root.keys, "keys");
+    for (const [name, key] of Object.entries(keys)) {
+      config.keys[name] = validateKey(key, `keys.${name}`);
+    }
+  }
+
+  if (root.providers !== undefined) {
+    const providers = expectObject(root.providers, "providers");
+    for (const [name, provider] of Object.entries(providers)) {
+      config.providers[name.toLowerCase()] = validateProvider(
+        provider,
+        `providers.${name}`
+      );
+    }
+  }
+
+  if (root.aliases !== undefined) {
+    const aliases = expectObject(root.aliases, "aliases");
+    for (const [name, alias] of Object.entries(aliases)) {
+      config.aliases[name.toLowerCase()] = validateAlias(
+        alias,
+        `aliases.${name}`
+      );
+    }
+  }
+
+  if (root.usage !== undefined) {
+    config.usage = validateUsage(root.usage, "usage");
+  }
+
+  if (root.cache !== undefined) {
+    config.cache = validateCache(root.cache, "cache");
+  }
+
+  if (root.passthrough !== undefined) {
+    config.passthrough = validatePassthrough(root.passthrough, "passthrough");
+  }
+
+  if (root.discovery !== undefined) {
+    config.discovery = validateDiscovery(root.discovery, "discovery");
+  }
+
+  if (root.logging !== undefined) {
+    config.logging = validateLogging(root.logging, "logging");
+  }
+
+  return config;
+}
+
+/**
+ * Locates the config file: `PASSY_CONFIG` if set, otherwise the first of
+ * CONFIG_FILE_NAMES in the working directory.
+ */
+export function findConfigFile(
+  env: NodeJS.ProcessEnv = process.env
+): string | null {
+  if (env.PASSY_CONFIG) {
+    const path = resolve(process.cwd(), env.PASSY_CONFIG);
+    if (!existsSync(path)) {
+      throw new ConfigError("", `Config file not found: ${path}`);
+    }
+    return path;
+  }
+  for (const name of CONFIG_FILE_NAMES) {
+    const path = resolve(process.cwd(), name);
+    if (existsSync(path)) return path;
+  }
+  return null;
+}
+
+export function readConfigFile(
+  path: string,
+  env: NodeJS.ProcessEnv = process.env
+): FileConfig {
+  const text = readFileSync(path, "utf8");
+  let raw: unknown;
+  try {
+    raw = path.endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new ConfigError("", `Failed to parse ${path}: ${reason}`);
+  }
+  return validateConfig(interpolate(raw, env));
+}
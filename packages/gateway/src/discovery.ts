@@ -1,12 +1,45 @@
-import type { Provider } from "./types.js";
+import type {
+  DiscoveryConfig,
+  DiscoveryState,
+  EnvConfig,
+  Provider,
+  ProviderFormat,
+} from "./types.js";
 import nodeHttps from "node:https";
 import nodeHttp from "node:http";
+import { log, redact } from "./logger.js";
+import {
+  authHeaders,
+  endpointPath,
+  listsModels,
+  typeFormat,
+} from "./providers.js";
+
+// Model discovery: probes each provider's /models in the OpenAI and the
+// Anthropic format to learn which one it speaks (for type "auto") and which
+// models it has; "ollama" providers list theirs at /api/tags. Providers are
+// probed in parallel; failed ones are retried with backoff and the model
+// lists are refreshed on a schedule.
+
+export const DEFAULT_DISCOVERY: DiscoveryConfig = {
+  timeout: 10000,
+  refreshInterval: 900000,
+  retryDelay: 5000,
+  maxRetryDelay: 300000,
+};
+
+// How often the scheduler looks for due refreshes and retries
+const SCHEDULE_TICK_MS = 1000;
+
+// Runs in progress, so concurrent triggers share one. Keyed by the state,
+// which a reload hands on to the unchanged provider's new object.
+const running = new WeakMap<DiscoveryState, Promise<void>>();
 
 // Simple fetch wrapper using Node's https/http
 function fetchWithTimeout(
   url: string,
   options: { headers: Record<string, string>; timeout: number }
-): Promise<{ ok: boolean; json: () => Promise<unknown> }> {
+): Promise<{ ok: boolean; status: number; json: () => Promise<unknown> }> {
   return new Promise((resolve, reject) => {
     const urlObj = new URL(url);
     const isHttps = urlObj.protocol === "https:";
@@ -25,15 +58,16 @@ function fetchWithTimeout(
       let data = "";
       res.on("data", (chunk: Buffer) => (data += chunk));
       res.on("end", () => {
-        // Only log in debug mode to reduce console spam
-        if (process.env.DEBUG_DISCOVERY) {
-          console.log(`[fetch] Response status: ${res.statusCode}, data length: ${data.length}`);
-          if (data.length > 0) {
-            console.log(`[fetch] Response preview: ${data.substring(0, 200)}`);
-          }
-        }
+        // Only logged at debug level to reduce console spam
+        log.debug("Discovery response", {
+          url,
+          status: res.statusCode,
+          length: data.length,
+          preview: data.substring(0, 200) || undefined,
+        });
         resolve({
           ok: res.statusCode >= 200 && res.statusCode < 300,
+          status: res.statusCode,
           json: async () => JSON.parse(data),
         });
       });
@@ -46,74 +80,229 @@ function fetchWithTimeout(
     req.on("timeout", () => {
       // Silently handle timeout - no console spam
       req.destroy();
-      reject(new Error("Timeout"));
+      reject(new Error(`Timeout after ${options.timeout}ms`));
     });
 
     req.end();
   });
 }
 
-export async function discoverProviders(
-  providers: Map<string, Provider>
+// Lists the provider's models in one format, or returns the non-OK status
+async function listModels(
+  provider: Provider,
+  format: ProviderFormat,
+  timeout: number
+): Promise<{ models: string[] } | { status: number }> {
+  const url = new URL(endpointPath(provider, format, "models"), provider.url);
+  const res = await fetchWithTimeout(url.toString(), {
+    headers: {
+      ...provider.headers,
+      ...authHeaders(provider, format, provider.keys[0]),
+    },
+    timeout,
+  });
+  if (!res.ok) return { status: res.status };
+  if (format === "ollama") {
+    const data = (await res.json()) as { models?: Array<{ name: string }> };
+    return { models: data.models?.map((m) => m.name) || [] };
+  }
+  const data = (await res.json()) as { data?: Array<{ id: string }> };
+  return { models: data.data?.map((m) => m.id) || [] };
+}
+
+// Marks a run that found a format and schedules the next refresh
+function succeeded(state: DiscoveryState, config: DiscoveryConfig): void {
+  const now = Date.now();
+  state.lastSuccessAt = now;
+  state.error = undefined;
+  state.failures = 0;
+  state.nextAt = config.refreshInterval
+    ? now + config.refreshInterval
+    : undefined;
+}
+
+async function runDiscovery(
+  provider: Provider,
+  config: DiscoveryConfig
 ): Promise<void> {
-  for (const [name, provider] of providers) {
-    console.log(`[${name}] Discovering...`);
+  const name = provider.name;
+  const state = provider.discovery;
+  log.info("Discovering provider", { provider: name, type: provider.type });
+  state.lastAttemptAt = Date.now();
+
+  // A typed provider's format is known; only its models are looked up
+  const fixed = typeFormat(provider.type);
+  if (fixed) {
+    provider.openai = fixed === "openai";
+    provider.anthropic = fixed === "anthropic";
+    provider.ollama = fixed === "ollama";
+  }
+  if (!listsModels(provider)) {
+    succeeded(state, config);
+    return;
+  }
+
+  let listed = false; // In the OpenAI (or Ollama) format
+  let anthropic = false;
+  let models: string[] = [];
+  let error: string | undefined;
+  let unreachable = false;
 
-    // Try OpenAI format
+  // Try OpenAI format, or Ollama's for "ollama" providers
+  if (fixed !== "anthropic") {
+    const format = fixed ?? "openai";
+    const label = format === "ollama" ? "Ollama" : "OpenAI";
     try {
-      const res = await fetchWithTimeout(`${provider.url}/v1/models`, {
-        headers: { Authorization: `Bearer ${provider.key}` },
-        timeout: 10000,
-      });
-      if (res.ok) {
-        const data = (await res.json()) as { data?: Array<{ id: string }> };
-        provider.openai = true;
-        provider.models = data.data?.map((m) => m.id) || [];
-        console.log(
-          `[${name}] ✓ OpenAI format, ${provider.models.length} models`
-        );
+      const result = await listModels(provider, format, config.timeout);
+      if ("models" in result) {
+        listed = true;
+        models = result.models;
+        log.info(`${label} format found`, {
+          provider: name,
+          models: models.length,
+        });
         // Log first 20 models for debugging
-        if (provider.models.length > 0) {
-          console.log(`[${name}] Models: ${provider.models.slice(0, 20).join(", ")}${provider.models.length > 20 ? "..." : ""}`);
+        if (models.length > 0) {
+          log.debug("Provider models", {
+            provider: name,
+            models: models.slice(0, 20),
+          });
         }
       } else {
-        console.log(`[${name}] OpenAI format returned non-OK status`);
+        error = `HTTP ${result.status}`;
+        log.info(`${label} format returned non-OK status`, {
+          provider: name,
+          status: result.status,
+        });
       }
     } catch (e) {
-      const errorMsg = e instanceof Error ? e.message : String(e);
-      console.log(`[${name}] ✗ OpenAI format failed: ${errorMsg}`);
+      error = e instanceof Error ? e.message : String(e);
+      unreachable = true;
+      log.info(`${label} format failed`, { provider: name, error });
     }
+  }
 
-    // Try Anthropic format (if OpenAI failed or for additional models)
-    if (!provider.openai || provider.models.length === 0) {
-      try {
-        const res = await fetchWithTimeout(`${provider.url}/v1/models`, {
-          headers: {
-            "x-api-key": provider.key,
-            "anthropic-version": "2023-06-01",
-          },
-          timeout: 10000,
+  // Try Anthropic format (if OpenAI failed or for additional models). A
+  // provider that can't be reached isn't worth a second timeout.
+  if (
+    (!fixed || fixed === "anthropic") &&
+    !unreachable &&
+    (!listed || models.length === 0)
+  ) {
+    try {
+      const result = await listModels(provider, "anthropic", config.timeout);
+      if ("models" in result) {
+        anthropic = true;
+        // Merge models (avoid duplicates)
+        models = [...new Set([...models, ...result.models])];
+        log.info("Anthropic format found", {
+          provider: name,
+          models: result.models.length,
+        });
+      } else {
+        error = `HTTP ${result.status}`;
+        log.info("Anthropic format returned non-OK status", {
+          provider: name,
+          status: result.status,
         });
-        if (res.ok) {
-          const data = (await res.json()) as { data?: Array<{ id: string }> };
-          provider.anthropic = true;
-          const anthropicModels = data.data?.map((m) => m.id) || [];
-          // Merge models (avoid duplicates)
-          provider.models = [...new Set([...provider.models, ...anthropicModels])];
-          console.log(
-            `[${name}] ✓ Anthropic format, ${anthropicModels.length} models`
-          );
-        } else {
-          console.log(`[${name}] Anthropic format returned non-OK status`);
-        }
-      } catch (e) {
-        const errorMsg = e instanceof Error ? e.message : String(e);
-        console.log(`[${name}] ✗ Anthropic format failed: ${errorMsg}`);
       }
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+      log.info("Anthropic format failed", { provider: name, error });
     }
+  }
 
-    if (!provider.openai && !provider.anthropic) {
-      console.log(`[${name}] ✗ No compatible format found`);
+  if (listed || anthropic) {
+    if (!fixed) {
+      provider.openai = listed;
+      provider.anthropic = anthropic;
     }
+    provider.models = models;
+    succeeded(state, config);
+    return;
   }
-}
\ No newline at end of file
+
+  // A failed refresh keeps the format and models found before
+  state.failures++;
+  state.error = error ?? "No compatible format found";
+  const retryMs = Math.min(
+    config.retryDelay * 2 ** (state.failures - 1),
+    config.maxRetryDelay
+  );
+  state.nextAt = Date.now() + retryMs;
+  log.warn(fixed ? "Model listing failed" : "No compatible format found", {
+    provider: name,
+    error: state.error,
+    failures: state.failures,
+    retry_in_ms: retryMs,
+  });
+}
+
+/** Discovers one provider, joining the run in progress if there is one */
+export function discoverProvider(
+  provider: Provider,
+  config: DiscoveryConfig = DEFAULT_DISCOVERY
+): Promise<void> {
+  const current = running.get(provider.discovery);
+  if (current) return current;
+  const run = runDiscovery(provider, config).finally(() =>
+    running.delete(provider.discovery)
+  );
+  running.set(provider.discovery, run);
+  return run;
+}
+
+export async function discoverProviders(
+  providers: Map<string, Provider>,
+  config: DiscoveryConfig = DEFAULT_DISCOVERY
+): Promise<void> {
+  await Promise.all(
+    Array.from(providers.values(), (provider) =>
+      discoverProvider(provider, config)
+    )
+  );
+}
+
+/**
+ * Runs due refreshes and retries for the providers of the current config
+ * until the returned function is called.
+ */
+export function scheduleDiscovery(getEnv: () => EnvConfig): () => void {
+  const timer = setInterval(() => {
+    const env = getEnv();
+    const now = Date.now();
+    for (const provider of env.providers.values()) {
+      const { nextAt } = provider.discovery;
+      if (nextAt === undefined || nextAt > now) continue;
+      if (running.has(provider.discovery)) continue;
+      discoverProvider(provider, env.discovery);
+    }
+  }, SCHEDULE_TICK_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+function isoTime(ms: number | undefined): string | null {
+  return ms === undefined ? null : new Date(ms).toISOString();
+}
+
+/** Discovery state for /health */
+export function discoveryStatus(provider: Provider) {
+  const { discovery } = provider;
+  const formats = [
+    ...(provider.openai ? ["openai"] : []),
+    ...(provider.anthropic ? ["anthropic"] : []),
+    ...(provider.ollama ? ["ollama"] : []),
+  ];
+  return {
+    format: formats.length > 0 ? formats.join("+") : null,
+    running: running.has(discovery),
+    last_attempt: isoTime(discovery.lastAttemptAt),
+    last_success: isoTime(discovery.lastSuccessAt),
+    next_attempt: isoTime(discovery.nextAt),
+    ...(discovery.error && {
+      error: redact(discovery.error),
+      failures: discovery.failures,
+    }),
+  };
+}
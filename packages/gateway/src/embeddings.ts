@@ -0,0 +1,200 @@
+import type http from "node:http";
+import { Writable } from "node:stream";
+import type { Alias, ClientResponse, Provider } from "./types.js";
+import { InvalidRequestError } from "./errors.js";
+import { proxyWithFallback, type ProxyOptions } from "./proxy.js";
+
+// /v1/embeddings: inputs are split into batches no provider of the alias
+// would refuse, each batch goes through the fallback chain on its own and
+// the results are merged back in input order. Upstreams are always asked
+// for floats; base64 output is encoded here, so it works with providers
+// that only return floats.
+
+const ENCODING_FORMATS = ["float", "base64"];
+
+interface Embedding {
+  object: "embedding";
+  index: number;
+  embedding: number[] | string;
+}
+
+interface EmbeddingsResponse {
+  object: "list";
+  data: Embedding[];
+  model: string;
+  usage: { prompt_tokens: number; total_tokens: number };
+}
+
+interface CollectedResponse {
+  status: number;
+  headers: http.OutgoingHttpHeaders;
+  body: string;
+}
+
+// Stands in for the client response so a batch's result can be merged
+// before anything is sent. Closes when the proxy ends it, or when the
+// client goes away.
+class ResponseCollector extends Writable implements ClientResponse {
+  statusCode = 200;
+  headers: http.OutgoingHttpHeaders = {};
+  private chunks: Buffer[] = [];
+
+  writeHead(status: number, headers?: http.OutgoingHttpHeaders): this {
+    this.statusCode = status;
+    Object.assign(this.headers, headers);
+    return this;
+  }
+
+  _write(
+    chunk: Buffer | string,
+    _encoding: BufferEncoding,
+    callback: () => void
+  ): void {
+    this.chunks.push(Buffer.from(chunk));
+    callback();
+  }
+
+  text(): string {
+    return Buffer.concat(this.chunks).toString("utf8");
+  }
+}
+
+function proxyBatch(
+  alias: Alias,
+  body: Record<string, unknown>,
+  providers: Map<string, Provider>,
+  res: http.ServerResponse,
+  options: ProxyOptions
+): Promise<CollectedResponse | null> {
+  return new Promise((resolve) => {
+    const collector = new ResponseCollector();
+    const onClientClose = () => collector.destroy();
+    res.once("close", onClientClose);
+    collector.once("close", () => {
+      res.off("close", onClientClose);
+      resolve(
+        collector.writableFinished
+          ? {
+              status: collector.statusCode,
+              headers: collector.headers,
+              body: collector.text(),
+            }
+          : null
+      );
+    });
+    proxyWithFallback(alias, body, providers, collector, {
+      ...options,
+      endpoint: "embeddings",
+    });
+  });
+}
+
+// A list of inputs, or a single string or token array
+function splitInputs(input: unknown): unknown[] {
+  if (typeof input === "string") return [input];
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new InvalidRequestError(
+      "'input' must be a string, an array of strings or token arrays",
+      "input"
+    );
+  }
+  return typeof input[0] === "number" ? [input] : input;
+}
+
+// Little-endian float32s, as OpenAI encodes them
+function toBase64(embedding: number[]): string {
+  return Buffer.from(new Float32Array(embedding).buffer).toString("base64");
+}
+
+// The smallest batch size of the alias's configured providers
+function batchSize(alias: Alias, providers: Map<string, Provider>): number {
+  const sizes = alias.targets
+    .map((target) => providers.get(target.provider)?.embeddingBatchSize)
+    .filter((size): size is number => size !== undefined);
+  return sizes.length > 0 ? Math.min(...sizes) : Infinity;
+}
+
+/**
+ * Serves an embeddings request. A failed batch's upstream error is sent to
+ * the client as it is, and the batches after it are not requested.
+ */
+export async function proxyEmbeddings(
+  alias: Alias,
+  body: Record<string, unknown>,
+  providers: Map<string, Provider>,
+  res: http.ServerResponse,
+  options: ProxyOptions = {}
+): Promise<void> {
+  const inputs = splitInputs(body.input);
+  const format = body.encoding_format ?? "float";
+  if (typeof format !== "string" || !ENCODING_FORMATS.includes(format)) {
+    throw new InvalidRequestError(
+      "'encoding_format' must be float or base64",
+      "encoding_format"
+    );
+  }
+
+  const size = batchSize(alias, providers);
+  const merged: EmbeddingsResponse = {
+    object: "list",
+    data: [],
+    model: alias.name,
+    usage: { prompt_tokens: 0, total_tokens: 0 },
+  };
+
+  for (let start = 0; start < inputs.length; start += size) {
+    const batch = inputs.slice(start, start + size);
+    const result = await proxyBatch(
+      alias,
+      {
+        ...body,
+        // A single input is passed on in the shape the client sent
+        input: inputs.length === 1 ? body.input : batch,
+        encoding_format: "float",
+      },
+      providers,
+      res,
+      options
+    );
+    if (!result) return; // Client went away
+
+    let parsed: EmbeddingsResponse | undefined;
+    try {
+      if (result.status < 300) {
+        parsed = JSON.parse(result.body) as EmbeddingsResponse;
+      }
+    } catch {
+      parsed = undefined;
+    }
+    if (!parsed || !Array.isArray(parsed.data)) {
+      res.writeHead(result.status < 300 ? 502 : result.status, result.headers);
+      res.end(result.body);
+      return;
+    }
+
+    if (start === 0) merged.model = parsed.model ?? alias.name;
+    for (const item of parsed.data) {
+      merged.data.push({ ...item, index: start + item.index });
+    }
+    merged.usage.prompt_tokens += parsed.usage?.prompt_tokens ?? 0;
+    merged.usage.total_tokens += parsed.usage?.total_tokens ?? 0;
+  }
+
+  merged.data.sort((a, b) => a.index - b.index);
+  if (format === "base64") {
+    for (const item of merged.data) {
+      if (Array.isArray(item.embedding)) {
+        item.embedding = toBase64(item.embedding);
+      }
+    }
+  }
+  // The proxy saw each batch's usage; the request's is their sum
+  if (options.context) {
+    options.context.usage = {
+      promptTokens: merged.usage.prompt_tokens,
+      completionTokens: 0,
+    };
+  }
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(merged));
+}
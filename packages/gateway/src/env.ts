@@ -1,63 +1,450 @@
-import type { Provider, Alias, EnvConfig } from "./types.js";
+import { resolve } from "node:path";
+import type {
+  Provider,
+  Alias,
+  AliasKind,
+  AliasTarget,
+  CacheConfig,
+  EnvConfig,
+  GatewayKey,
+  LogConfig,
+  ProviderType,
+  Timeouts,
+} from "./types.js";
+import {
+  ALIAS_KINDS,
+  BALANCE_STRATEGIES,
+  CACHE_BACKENDS,
+  expectOneOf,
+  findConfigFile,
+  LOG_FORMATS,
+  LOG_LEVELS,
+  readConfigFile,
+  parseTargetRef,
+  validateConfig,
+  type FileConfig,
+  type ProviderConfig,
+} from "./config.js";
+import { ConfigError } from "./errors.js";
+import { hashKey } from "./keys.js";
+import { createCircuit, DEFAULT_CIRCUIT_BREAKER } from "./circuit.js";
+import { createKeyPool } from "./keypool.js";
+import { DEFAULT_DISCOVERY } from "./discovery.js";
+import {
+  allowsNoKey,
+  AUTH_SCHEMES,
+  defaultBasePath,
+  defaultEmbeddingBatchSize,
+  normalizeBasePath,
+  PROVIDER_TYPES,
+  supportsEmbeddings,
+} from "./providers.js";
 
+const DEFAULT_FALLBACK_ON = ["5xx", "timeout", "rate_limit", "network"];
+
+// Applied to every provider unless the config file says otherwise
+const DEFAULT_TIMEOUTS: Timeouts = { connect: 10000, idle: 60000 };
+
+const DEFAULT_USAGE_FILE = "mini-passy.usage.jsonl";
+
+const DEFAULT_CACHE: CacheConfig = {
+  backend: "memory",
+  ttl: 3600000,
+  maxEntries: 1000,
+  maxBytes: 100 * 1024 * 1024,
+  dir: ".mini-passy-cache",
+};
+
+// PROVIDER_{NAME}_KEY and/or the comma-separated PROVIDER_{NAME}_KEYS
+function readProviderKeys(envName: string): string[] {
+  const keys = [
+    process.env[`PROVIDER_${envName}_KEY`] ?? "",
+    ...(process.env[`PROVIDER_${envName}_KEYS`] ?? "").split(","),
+  ].map((key) => key.trim());
+  return [...new Set(keys.filter(Boolean))];
+}
+
+// Whether the provider may run without a key: PROVIDER_{NAME}_KEYLESS, then
+// the config file's `keyless`, then its type's default. Only an explicit
+// setting or a local type allows it, so a mistyped key variable doesn't
+// quietly leave a hosted provider unauthenticated.
+function allowsKeyless(
+  envName: string,
+  type: ProviderType,
+  config: ProviderConfig = {}
+): boolean {
+  const flag = process.env[`PROVIDER_${envName}_KEYLESS`];
+  if (flag) return flag === "true" || flag === "1";
+  return config.keyless ?? allowsNoKey(type);
+}
+
+// A keyless provider's pool holds one empty key, which sends no auth header
+function keyPool(keys: string[]) {
+  return createKeyPool(keys.length > 0 ? keys : [""]);
+}
+
+function readEnvChoice<T extends string>(
+  name: string,
+  allowed: readonly T[]
+): T | undefined {
+  const value = process.env[name];
+  return value ? expectOneOf(value.toLowerCase(), allowed, name) : undefined;
+}
+
+function readEnvHeaders(name: string): Record<string, string> {
+  const value = process.env[name];
+  if (!value) return {};
+  let headers: unknown;
+  try {
+    headers = JSON.parse(value);
+  } catch {
+    headers = undefined;
+  }
+  if (
+    typeof headers !== "object" ||
+    headers === null ||
+    Array.isArray(headers) ||
+    !Object.values(headers).every((header) => typeof header === "string")
+  ) {
+    throw new ConfigError(name, "expected a JSON object of header values");
+  }
+  return headers as Record<string, string>;
+}
+
+// Type, API root, auth and headers: PROVIDER_{NAME}_TYPE, _BASE_PATH,
+// _AUTH_SCHEME, _API_VERSION and _HEADERS (a JSON object) over the config
+// file's fields
+function readProviderSettings(envName: string, config: ProviderConfig = {}) {
+  const env = (field: string) => process.env[`PROVIDER_${envName}_${field}`];
+  const type =
+    readEnvChoice(`PROVIDER_${envName}_TYPE`, PROVIDER_TYPES) ??
+    config.type ??
+    "auto";
+  return {
+    type,
+    basePath: normalizeBasePath(
+      env("BASE_PATH") ?? config.basePath ?? defaultBasePath(type)
+    ),
+    authScheme:
+      readEnvChoice(`PROVIDER_${envName}_AUTH_SCHEME`, AUTH_SCHEMES) ??
+      config.authScheme,
+    apiVersion: env("API_VERSION") || config.apiVersion,
+    embeddings: config.embeddings,
+    embeddingBatchSize:
+      config.embeddingBatchSize ?? defaultEmbeddingBatchSize(type),
+    headers: {
+      ...config.headers,
+      ...readEnvHeaders(`PROVIDER_${envName}_HEADERS`),
+    },
+  };
+}
+
+// Embedding models nearly always say so, e.g. text-embedding-3-small or
+// nomic-embed-text; others need an explicit kind
+function inferKind(targets: AliasTarget[]): AliasKind {
+  return targets.every((target) => /embed/i.test(target.model))
+    ? "embeddings"
+    : "chat";
+}
+
+// Rejects embeddings aliases with targets on providers known to lack
+// /embeddings; `path` names the target's setting
+function checkEmbeddingTargets(
+  alias: Alias,
+  providers: Map<string, Provider>,
+  path: (index: number) => string
+): void {
+  if (alias.kind !== "embeddings") return;
+  alias.targets.forEach((target, i) => {
+    const provider = providers.get(target.provider);
+    if (provider && !supportsEmbeddings(provider)) {
+      throw new ConfigError(
+        path(i),
+        `provider "${target.provider}" does not serve embeddings`
+      );
+    }
+  });
+}
+
+/**
+ * Builds the gateway configuration from the config file (if any) and
+ * environment variables. Environment variables win: PROVIDER_* values
+ * override fields of a provider with the same name, ALIAS_* replaces the
+ * alias with the same name.
+ */
 export function loadEnv(): EnvConfig {
-  const port = parseInt(process.env.PORT || "3333", 10);
+  const configPath = findConfigFile();
+  const file: FileConfig = configPath
+    ? readConfigFile(configPath)
+    : validateConfig({});
+
+  const port = parseInt(
+    process.env.PORT || String(file.server.port ?? 3333),
+    10
+  );
+  const authKey = process.env.PASSY_AUTH_KEY || file.server.authKey;
+  const defaultFallbackOn = file.fallback.on ?? DEFAULT_FALLBACK_ON;
+  const defaultTimeouts = { ...DEFAULT_TIMEOUTS, ...file.timeouts };
+  const defaultBreaker = {
+    ...DEFAULT_CIRCUIT_BREAKER,
+    ...file.circuitBreaker,
+  };
   const providers = new Map<string, Provider>();
   const aliases = new Map<string, Alias>();
 
-  // Parse PROVIDER_*_URL and PROVIDER_*_KEY
+  // Providers from the config file, with PROVIDER_{NAME}_URL/_KEY(S)
+  // overrides
+  for (const [name, config] of Object.entries(file.providers)) {
+    const envName = name.toUpperCase();
+    const url = process.env[`PROVIDER_${envName}_URL`] || config.url;
+    const envKeys = readProviderKeys(envName);
+    const keys = envKeys.length
+      ? envKeys
+      : [...new Set([config.key ?? "", ...(config.keys ?? [])])].filter(
+          Boolean
+        );
+    if (!url) {
+      throw new ConfigError(
+        `providers.${name}.url`,
+        `missing (set it in the config file or PROVIDER_${envName}_URL)`
+      );
+    }
+    const settings = readProviderSettings(envName, config);
+    if (keys.length === 0 && !allowsKeyless(envName, settings.type, config)) {
+      throw new ConfigError(
+        `providers.${name}.key`,
+        `missing (set it in the config file or PROVIDER_${envName}_KEY/_KEYS, or keyless: true)`
+      );
+    }
+    providers.set(name, {
+      name,
+      url,
+      ...settings,
+      keys: keyPool(keys),
+      keyRotation: config.keyRotation ?? "round_robin",
+      timeouts: { ...defaultTimeouts, ...config.timeouts },
+      rateLimit: config.rateLimit,
+      circuitBreaker: { ...defaultBreaker, ...config.circuitBreaker },
+      circuit: createCircuit(),
+      discovery: { failures: 0 },
+      openai: false,
+      anthropic: false,
+      ollama: false,
+      models: [],
+    });
+  }
+
+  // Parse PROVIDER_*_URL and PROVIDER_*_KEY(S); a URL alone registers a
+  // provider only when it may run without a key
   for (const [key, value] of Object.entries(process.env)) {
     const match = key.match(/^PROVIDER_(.+)_URL$/);
     if (match && value) {
       const name = match[1].toLowerCase();
+      if (providers.has(name)) continue; // Already merged above
       const url = value;
-      const apiKey = process.env[`PROVIDER_${match[1]}_KEY`];
-      if (apiKey) {
+      const apiKeys = readProviderKeys(match[1]);
+      const settings = readProviderSettings(match[1]);
+      if (apiKeys.length > 0 || allowsKeyless(match[1], settings.type)) {
         providers.set(name, {
           name,
           url,
-          key: apiKey,
+          ...settings,
+          keys: keyPool(apiKeys),
+          keyRotation: "round_robin",
+          timeouts: defaultTimeouts,
+          circuitBreaker: defaultBreaker,
+          circuit: createCircuit(),
+          discovery: { failures: 0 },
           openai: false,
           anthropic: false,
+          ollama: false,
           models: [],
         });
       }
     }
   }
 
-  // Parse ALIAS_* and ALIAS_*_FALLBACK
+  // Aliases from the config file
+  for (const [name, config] of Object.entries(file.aliases)) {
+    config.targets.forEach((target, i) => {
+      if (!providers.has(target.provider)) {
+        throw new ConfigError(
+          `aliases.${name}.targets[${i}].provider`,
+          `unknown provider "${target.provider}"`
+        );
+      }
+    });
+    const alias: Alias = {
+      name,
+      kind: config.kind ?? inferKind(config.targets),
+      targets: config.targets,
+      strategy: config.strategy ?? "priority",
+      fallbackOn: config.fallbackOn ?? defaultFallbackOn,
+      ...(config.timeouts && { timeouts: config.timeouts }),
+      ...(config.rateLimit && { rateLimit: config.rateLimit }),
+      ...(config.contextWindow && { contextWindow: config.contextWindow }),
+      ...(config.maxOutputTokens && {
+        maxOutputTokens: config.maxOutputTokens,
+      }),
+      ...(config.capabilities && { capabilities: config.capabilities }),
+    };
+    checkEmbeddingTargets(
+      alias,
+      providers,
+      (i) => `aliases.${name}.targets[${i}].provider`
+    );
+    aliases.set(name, alias);
+  }
+
+  // Parse ALIAS_* and ALIAS_*_FALLBACK / _STRATEGY / _WEIGHTS / _KIND
   for (const [key, value] of Object.entries(process.env)) {
     const match = key.match(/^ALIAS_(.+)$/);
-    if (match && value && !key.endsWith("_FALLBACK")) {
+    if (match && value && !/_(FALLBACK|STRATEGY|WEIGHTS|KIND)$/.test(key)) {
       const name = match[1].toLowerCase();
       // Parse "provider:model" or just "provider" (uses same model name)
-      const [providerName, modelName] = value.includes(":")
-        ? value.split(":")
-        : [value, name];
+      const primary = parseTargetRef(value, name);
+      if (!primary) continue;
 
+      // Fallbacks are "provider" (same model) or "provider:model"
       const fallbackKey = `ALIAS_${match[1]}_FALLBACK`;
       const fallbackStr = process.env[fallbackKey];
-      const fallbackProviders = fallbackStr
-        ? fallbackStr.split(",").map((s) => s.trim().toLowerCase())
+      const fallbackTargets = fallbackStr
+        ? fallbackStr
+            .split(",")
+            .map((s) => parseTargetRef(s, primary.model))
+            .filter((t): t is NonNullable<typeof t> => t !== null)
         : [];
 
       // Build targets list: primary + fallbacks
-      const targets = [
-        { provider: providerName.toLowerCase(), model: modelName || name },
-      ];
-      for (const fb of fallbackProviders) {
-        if (fb !== providerName.toLowerCase()) {
-          targets.push({ provider: fb, model: modelName || name });
+      const targets = [primary];
+      for (const fb of fallbackTargets) {
+        if (fb.provider !== primary.provider || fb.model !== primary.model) {
+          targets.push(fb);
         }
       }
 
-      aliases.set(name, {
+      // Weights in target order, e.g. ALIAS_LLAMA_WEIGHTS=3,1
+      const weightsKey = `ALIAS_${match[1]}_WEIGHTS`;
+      process.env[weightsKey]
+        ?.split(",")
+        .slice(0, targets.length)
+        .forEach((weight, i) => {
+          const parsed = Number(weight.trim());
+          if (weight.trim() === "" || !(parsed >= 0)) {
+            throw new ConfigError(weightsKey, "expected numbers >= 0");
+          }
+          targets[i] = { ...targets[i], weight: parsed };
+        });
+
+      const alias: Alias = {
         name,
+        kind:
+          readEnvChoice(`ALIAS_${match[1]}_KIND`, ALIAS_KINDS) ??
+          inferKind(targets),
         targets,
-        fallbackOn: ["5xx", "timeout", "rate_limit"],
-      });
+        strategy:
+          readEnvChoice(`ALIAS_${match[1]}_STRATEGY`, BALANCE_STRATEGIES) ??
+          "priority",
+        fallbackOn: defaultFallbackOn,
+      };
+      checkEmbeddingTargets(alias, providers, () => key);
+      aliases.set(name, alias);
     }
   }
 
-  return { port, providers, aliases };
+  // Gateway keys from the config file, plus the single PASSY_AUTH_KEY
+  const keys = new Map<string, GatewayKey>();
+  for (const [name, config] of Object.entries(file.keys)) {
+    // `provider/model` entries allow pass-through models
+    config.aliases?.forEach((alias, i) => {
+      if (!aliases.has(alias) && !alias.includes("/")) {
+        throw new ConfigError(
+          `keys.${name}.aliases[${i}]`,
+          `unknown alias "${alias}"`
+        );
+      }
+    });
+    keys.set(config.hash, {
+      name,
+      hash: config.hash,
+      aliases: config.aliases,
+      admin: config.admin ?? false,
+      quota: config.quota ?? {},
+      rateLimit: config.rateLimit,
+      ...(config.expiresAt && { expiresAt: new Date(config.expiresAt) }),
+    });
+  }
+  if (authKey) {
+    const hash = hashKey(authKey);
+    keys.set(hash, { name: "default", hash, admin: true, quota: {} });
+  }
+
+  // Usage accounting is on with a `usage` section or PASSY_USAGE_FILE
+  const usageFile = process.env.PASSY_USAGE_FILE || file.usage?.file;
+  const usage =
+    usageFile || file.usage
+      ? {
+          file: resolve(process.cwd(), usageFile ?? DEFAULT_USAGE_FILE),
+          prices: file.usage?.prices ?? {},
+        }
+      : undefined;
+
+  // The response cache is on with a `cache` section or PASSY_CACHE (the
+  // backend)
+  const cacheBackend = readEnvChoice("PASSY_CACHE", CACHE_BACKENDS);
+  const cache =
+    cacheBackend || file.cache
+      ? {
+          ...DEFAULT_CACHE,
+          ...file.cache,
+          ...(cacheBackend && { backend: cacheBackend }),
+          dir: resolve(process.cwd(), file.cache?.dir ?? DEFAULT_CACHE.dir),
+        }
+      : undefined;
+
+  // Pass-through routing is on with a `passthrough` section or
+  // PASSY_PASSTHROUGH=true, and off with PASSY_PASSTHROUGH=false
+  const passthroughFlag = process.env.PASSY_PASSTHROUGH;
+  const passthroughOn = passthroughFlag
+    ? passthroughFlag === "true" || passthroughFlag === "1"
+    : file.passthrough !== undefined;
+  const passthrough = passthroughOn
+    ? {
+        allow: file.passthrough?.allow ?? [],
+        deny: file.passthrough?.deny ?? [],
+        listModels: file.passthrough?.listModels ?? false,
+      }
+    : undefined;
+
+  // PASSY_LOG_* override the `logging` section. Without a format, terminals
+  // get readable text and anything else (files, log shippers) JSON lines.
+  const logBodies = process.env.PASSY_LOG_BODIES;
+  const logging: LogConfig = {
+    level:
+      readEnvChoice("PASSY_LOG_LEVEL", LOG_LEVELS) ??
+      file.logging.level ??
+      "info",
+    format:
+      readEnvChoice("PASSY_LOG_FORMAT", LOG_FORMATS) ??
+      file.logging.format ??
+      (process.stdout.isTTY ? "text" : "json"),
+    bodies: logBodies
+      ? logBodies === "true" || logBodies === "1"
+      : file.logging.bodies ?? false,
+  };
+
+  const discovery = { ...DEFAULT_DISCOVERY, ...file.discovery };
+
+  return {
+    port,
+    authKey,
+    keys,
+    providers,
+    aliases,
+    usage,
+    cache,
+    passthrough,
+    discovery,
+    logging,
+  };
 }
@@ -0,0 +1,30 @@
+/**
+ * Raised when a client request cannot be served as asked, e.g. it uses a
+ * parameter the target provider's API has no equivalent for. The request
+ * handler turns it into a 400 response.
+ */
+export class InvalidRequestError extends Error {
+  readonly code: string;
+  readonly param?: string;
+
+  constructor(message: string, param?: string, code = "invalid_request") {
+    super(message);
+    this.name = "InvalidRequestError";
+    this.code = code;
+    this.param = param;
+  }
+}
+
+/**
+ * Raised for invalid gateway configuration. `path` names the offending key,
+ * e.g. `aliases.gpt4o.targets[1].provider`.
+ */
+export class ConfigError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = "ConfigError";
+    this.path = path;
+  }
+}
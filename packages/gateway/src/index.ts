@@ -1,23 +1,41 @@
 #!/usr/bin/env node
-import { config } from "dotenv";
 import { resolve } from "path";
 import { startServer } from "./server.js";
+import { loadEnv } from "./env.js";
+import { ConfigError } from "./errors.js";
+import { loadDotenv } from "./reload.js";
 
 // Export for programmatic use
 export { startServer } from "./server.js";
 export { loadEnv } from "./env.js";
 export { discoverProviders } from "./discovery.js";
-export { proxyWithFallback } from "./proxy.js";
-export type { EnvConfig, Provider, Alias } from "./types.js";
+export { proxyWithFallback, type ProxyOptions } from "./proxy.js";
+export { findConfigFile, readConfigFile, validateConfig } from "./config.js";
+export { ConfigError, InvalidRequestError } from "./errors.js";
+export { reloadConfig } from "./reload.js";
+export { hashKey } from "./keys.js";
+export type {
+  EnvConfig,
+  Provider,
+  ProviderType,
+  Alias,
+  CacheConfig,
+  DiscoveryConfig,
+  GatewayKey,
+  LogConfig,
+  PassthroughConfig,
+  RequestContext,
+  Timeouts,
+} from "./types.js";
 
-// Load .env from project root (wherever the command is run from)
+// Load .env from project root (wherever the command is run from);
+// the gateway re-reads it when it changes
 const envPath = resolve(process.cwd(), ".env");
-config({ path: envPath });
-
-const port = parseInt(process.env.PORT || "3333", 10);
+loadDotenv(envPath);
 
 async function main() {
-  let currentPort = port;
+  // PORT, then server.port from the config file, then 3333
+  let currentPort = loadEnv().port;
 
   // Try to bind, auto-increment if occupied
   for (let attempt = 0; attempt < 10; attempt++) {
@@ -43,5 +61,11 @@ async function main() {
 
 // Only run main if this is the entry point
 if (import.meta.url === `file://${process.argv[1]}`) {
-  main();
+  main().catch((err) => {
+    if (err instanceof ConfigError) {
+      console.error(`Invalid configuration: ${err.message}`);
+      process.exit(1);
+    }
+    throw err;
+  });
 }
@@ -0,0 +1,121 @@
+import type http from "node:http";
+import type { Provider, ProviderKey } from "./types.js";
+import { log } from "./logger.js";
+
+// Upstream API key pools. A key that gets a 429 or 401 is benched for the
+// upstream's Retry-After (or a default) and skipped while others are usable.
+// A pool of one key is never benched: with nothing to rotate to, its 429s
+// are left to the alias's fallback and the provider's rate limit, rather
+// than making every alias skip the provider.
+
+// Bench durations when the upstream gives no Retry-After
+const DEFAULT_BENCH_MS: Record<number, number> = {
+  429: 30000,
+  401: 300000, // Revoked or mistyped keys rarely recover quickly
+};
+
+const rotation = new Map<string, number>(); // Next index, by provider
+
+export function createKeyPool(keys: string[]): ProviderKey[] {
+  return keys.map((key) => ({ key, uses: 0 }));
+}
+
+export function isBenched(key: ProviderKey, now = Date.now()): boolean {
+  return key.benchedUntil !== undefined && key.benchedUntil > now;
+}
+
+/** Whether the upstream status benches the key that got it */
+export function isKeyFailure(status: number | undefined): boolean {
+  return status !== undefined && status in DEFAULT_BENCH_MS;
+}
+
+/** Whether a key failure can be retried with another key of the provider */
+export function canRotateKey(provider: Provider, now = Date.now()): boolean {
+  const keys = provider.keys;
+  return keys.length > 1 && keys.some((key) => !isBenched(key, now));
+}
+
+/**
+ * Picks the key for the next request. When every key is benched, the one
+ * whose bench ends first is returned; check it with `isBenched`.
+ */
+export function selectKey(provider: Provider, now = Date.now()): ProviderKey {
+  const keys = provider.keys;
+  const usable = keys.filter((key) => !isBenched(key, now));
+  let picked: ProviderKey;
+
+  if (usable.length === 0) {
+    picked = keys.reduce((a, b) =>
+      (a.benchedUntil ?? 0) <= (b.benchedUntil ?? 0) ? a : b
+    );
+  } else if (provider.keyRotation === "least_recently_limited") {
+    // Never-limited keys first, then the longest ago; ties by least used
+    picked = usable.reduce((a, b) => {
+      const byLimit = (a.limitedAt ?? 0) - (b.limitedAt ?? 0);
+      if (byLimit !== 0) return byLimit < 0 ? a : b;
+      return (a.lastUsedAt ?? 0) <= (b.lastUsedAt ?? 0) ? a : b;
+    });
+  } else {
+    const start = rotation.get(provider.name) ?? 0;
+    const offset = keys.findIndex(
+      (_, i) => !isBenched(keys[(start + i) % keys.length], now)
+    );
+    picked = keys[(start + offset) % keys.length];
+    rotation.set(provider.name, (start + offset + 1) % keys.length);
+  }
+
+  picked.uses++;
+  picked.lastUsedAt = now;
+  return picked;
+}
+
+// Retry-After in seconds or as an HTTP date, or OpenAI's retry-after-ms
+function retryAfterMs(headers: http.IncomingHttpHeaders, now: number) {
+  const ms = Number(headers["retry-after-ms"]);
+  if (headers["retry-after-ms"] && Number.isFinite(ms)) return ms;
+  const value = headers["retry-after"];
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** Benches the key after a 429 or 401 from the upstream, unless it's alone */
+export function benchKey(
+  provider: Provider,
+  key: ProviderKey,
+  status: number,
+  headers: http.IncomingHttpHeaders,
+  now = Date.now()
+): void {
+  if (!isKeyFailure(status) || provider.keys.length < 2) return;
+  const ms = retryAfterMs(headers, now) ?? DEFAULT_BENCH_MS[status];
+  key.benchedUntil = now + ms;
+  key.benchedFor = status;
+  key.limitedAt = now;
+  log.warn("Provider key benched", {
+    provider: provider.name,
+    key: maskKey(key.key),
+    status,
+    bench_ms: ms,
+  });
+}
+
+/** Shows enough of a key to tell keys apart, e.g. `sk-...9f3a` */
+export function maskKey(key: string): string {
+  return key.length > 12 ? `${key.slice(0, 3)}...${key.slice(-4)}` : "****";
+}
+
+/** Key pool state for /health */
+export function keyStatus(provider: Provider, now = Date.now()) {
+  return provider.keys.map((key) => ({
+    key: key.key ? maskKey(key.key) : null, // null for a keyless provider
+    status: isBenched(key, now) ? "benched" : "active",
+    requests: key.uses,
+    ...(isBenched(key, now) && {
+      benched_for: key.benchedFor,
+      retry_in_ms: (key.benchedUntil ?? now) - now,
+    }),
+  }));
+}
@@ -0,0 +1,66 @@
+import { createHash } from "node:crypto";
+import type { GatewayKey } from "./types.js";
+
+// Gateway API keys: lookup, alias allow-lists, expiry and daily quotas
+
+export function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/** Returns the key matching a bearer token, if any */
+export function findKey(
+  keys: Map<string, GatewayKey>,
+  token: string
+): GatewayKey | undefined {
+  return keys.get(hashKey(token));
+}
+
+export function isExpired(key: GatewayKey, now = new Date()): boolean {
+  return key.expiresAt !== undefined && key.expiresAt <= now;
+}
+
+// Pass-through model names keep their case; allow-lists are lowercased
+export function canUseAlias(key: GatewayKey | undefined, alias: string) {
+  return !key?.aliases || key.aliases.includes(alias.toLowerCase());
+}
+
+interface DailyUsage {
+  day: string; // UTC date, YYYY-MM-DD
+  requests: number;
+  tokens: number;
+}
+
+// Counters by key name, so they survive config reloads. Kept in memory:
+// a restart resets the day's quotas.
+const dailyUsage = new Map<string, DailyUsage>();
+
+function usageToday(key: GatewayKey): DailyUsage {
+  const day = new Date().toISOString().slice(0, 10);
+  let usage = dailyUsage.get(key.name);
+  if (!usage || usage.day !== day) {
+    usage = { day, requests: 0, tokens: 0 };
+    dailyUsage.set(key.name, usage);
+  }
+  return usage;
+}
+
+/** Returns why the key is over its daily quota, or null if it isn't */
+export function quotaExceeded(key: GatewayKey): string | null {
+  const { requestsPerDay, tokensPerDay } = key.quota;
+  const usage = usageToday(key);
+  if (requestsPerDay !== undefined && usage.requests >= requestsPerDay) {
+    return `Daily request quota of ${requestsPerDay} exceeded for key "${key.name}"`;
+  }
+  if (tokensPerDay !== undefined && usage.tokens >= tokensPerDay) {
+    return `Daily token quota of ${tokensPerDay} exceeded for key "${key.name}"`;
+  }
+  return null;
+}
+
+export function recordRequest(key: GatewayKey): void {
+  usageToday(key).requests++;
+}
+
+export function recordTokens(key: GatewayKey, tokens: number): void {
+  usageToday(key).tokens += tokens;
+}
@@ -0,0 +1,114 @@
+import { LOG_LEVELS } from "./config.js";
+import type { EnvConfig, LogConfig, LogLevel } from "./types.js";
+
+// Structured logging: one line per event, JSON for log shippers or
+// `message key=value` text for terminals. Info and debug go to stdout,
+// warnings and errors to stderr.
+
+export type LogFields = Record<string, unknown>;
+
+const REDACTED = "[redacted]";
+
+// Credentials that may show up in upstream error bodies or messages
+const SECRET_PATTERNS: [RegExp, string][] = [
+  [/(Bearer\s+)[^\s"',]+/gi, `$1${REDACTED}`],
+  [/\b(sk-(?:ant-)?)[A-Za-z0-9_-]{8,}/g, `$1${REDACTED}`],
+  [
+    /((?:api[_-]?key|x-api-key|authorization)"?\s*[:=]\s*"?)[^\s"',}]+/gi,
+    `$1${REDACTED}`,
+  ],
+];
+
+let config: LogConfig = {
+  level: "info",
+  format: process.stdout.isTTY ? "text" : "json",
+  bodies: false,
+};
+// Configured credentials (provider keys, PASSY_AUTH_KEY), longest first
+let secrets: string[] = [];
+
+/** Applies the logging settings and credentials of a (re)loaded config */
+export function configureLogger(env: EnvConfig): void {
+  config = env.logging;
+  const values = [
+    env.authKey,
+    ...[...env.providers.values()].flatMap((p) => p.keys.map((k) => k.key)),
+  ];
+  secrets = [...new Set(values)]
+    .filter((value): value is string => Boolean(value && value.length >= 8))
+    .sort((a, b) => b.length - a.length);
+}
+
+/** Replaces API keys and bearer tokens in `text` */
+export function redact(text: string): string {
+  let result = text;
+  for (const secret of secrets) result = result.split(secret).join(REDACTED);
+  for (const [pattern, replacement] of SECRET_PATTERNS) {
+    result = result.replace(pattern, replacement);
+  }
+  return result;
+}
+
+function redactValue(value: unknown): unknown {
+  if (typeof value === "string") return redact(value);
+  if (Array.isArray(value)) return value.map(redactValue);
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [name, redactValue(item)])
+    );
+  }
+  return value;
+}
+
+export function isLogged(level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(config.level);
+}
+
+/** Whether prompt and response bodies may be logged (at debug level) */
+export function logsBodies(): boolean {
+  return config.bodies && isLogged("debug");
+}
+
+function formatText(level: LogLevel, message: string, fields: LogFields) {
+  const pairs = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => {
+      if (typeof value !== "string") return `${name}=${JSON.stringify(value)}`;
+      return `${name}=${/[\s"]/.test(value) ? JSON.stringify(value) : value}`;
+    });
+  return [
+    new Date().toISOString(),
+    level.toUpperCase().padEnd(5),
+    message,
+    ...pairs,
+  ].join(" ");
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}) {
+  if (!isLogged(level)) return;
+  const safeMessage = redact(message);
+  const safeFields = redactValue(fields) as LogFields;
+  const line =
+    config.format === "json"
+      ? JSON.stringify({
+          ts: new Date().toISOString(),
+          level,
+          msg: safeMessage,
+          ...safeFields,
+        })
+      : formatText(level, safeMessage, safeFields);
+  if (level === "warn" || level === "error") {
+    process.stderr.write(`${line}\n`);
+  } else {
+    process.stdout.write(`${line}\n`);
+  }
+}
+
+export const log = {
+  debug: (message: string, fields?: LogFields) =>
+    write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) =>
+    write("error", message, fields),
+};
@@ -0,0 +1,235 @@
+import type http from "node:http";
+import type { CircuitState, EnvConfig, RequestContext } from "./types.js";
+
+// Prometheus metrics in the text exposition format. Series live in module
+// memory, so they keep counting across config reloads.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  lines(): string[];
+}
+
+const registry: Metric[] = [];
+
+// Seconds
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+const FIRST_TOKEN_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function sample(name: string, labels: Labels, value: number): string {
+  return `${name}${formatLabels(labels)} ${value}`;
+}
+
+function createCounter(name: string, help: string, type: "counter" | "gauge") {
+  // By formatted label set
+  const series = new Map<string, { labels: Labels; value: number }>();
+  registry.push({
+    name,
+    help,
+    type,
+    lines: () =>
+      Array.from(series.values(), ({ labels, value }) =>
+        sample(name, labels, value)
+      ),
+  });
+  return {
+    inc(labels: Labels, value = 1): void {
+      const key = formatLabels(labels);
+      const entry = series.get(key) ?? { labels, value: 0 };
+      entry.value += value;
+      series.set(key, entry);
+    },
+  };
+}
+
+function createHistogram(name: string, help: string, buckets: number[]) {
+  const series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+  registry.push({
+    name,
+    help,
+    type: "histogram",
+    lines: () =>
+      Array.from(series.values()).flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map((le, i) =>
+          sample(`${name}_bucket`, { ...labels, le: String(le) }, counts[i])
+        ),
+        sample(`${name}_bucket`, { ...labels, le: "+Inf" }, count),
+        sample(`${name}_sum`, labels, sum),
+        sample(`${name}_count`, labels, count),
+      ]),
+  });
+  return {
+    observe(labels: Labels, value: number): void {
+      const key = formatLabels(labels);
+      const entry = series.get(key) ?? {
+        labels,
+        counts: buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      buckets.forEach((le, i) => {
+        if (value <= le) entry.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+      series.set(key, entry);
+    },
+  };
+}
+
+const requests = createCounter(
+  "passy_requests_total",
+  "Proxied requests by alias, serving provider and response status",
+  "counter"
+);
+const duration = createHistogram(
+  "passy_request_duration_seconds",
+  "Time until the client response was complete",
+  LATENCY_BUCKETS
+);
+const firstToken = createHistogram(
+  "passy_time_to_first_token_seconds",
+  "Time until the first response body byte from the serving provider",
+  FIRST_TOKEN_BUCKETS
+);
+const fallbacks = createCounter(
+  "passy_fallbacks_total",
+  "Targets given up on in favour of the next one, by reason",
+  "counter"
+);
+const upstreamErrors = createCounter(
+  "passy_upstream_errors_total",
+  "Failed upstream attempts by provider and failure kind",
+  "counter"
+);
+const tokens = createCounter(
+  "passy_tokens_total",
+  "Tokens served by alias, provider and type (prompt or completion)",
+  "counter"
+);
+const cacheRequests = createCounter(
+  "passy_cache_requests_total",
+  "Cacheable requests by alias and result (hit, miss or bypass)",
+  "counter"
+);
+const streams = createCounter(
+  "passy_streams_in_flight",
+  "Streaming requests currently open",
+  "gauge"
+);
+
+function failureKind(status: number): string {
+  if (status === 429) return "rate_limit";
+  return status >= 500 ? "5xx" : "4xx";
+}
+
+/** Counts a proxied request once its response is closed */
+export function observeRequest(context: RequestContext, status: number) {
+  const { alias, served, usage, attempts } = context;
+  if (!alias) return;
+  const provider =
+    served?.provider ?? (context.cache === "hit" ? "cache" : "none");
+  const labels = { alias, provider };
+
+  requests.inc({ ...labels, status: String(status) });
+  if (context.cache) cacheRequests.inc({ alias, result: context.cache });
+  duration.observe(labels, (Date.now() - context.startedAt) / 1000);
+  if (context.firstByteAt) {
+    firstToken.observe(
+      labels,
+      (context.firstByteAt - context.startedAt) / 1000
+    );
+  }
+
+  attempts.forEach((attempt, i) => {
+    if (attempt.outcome !== "served" && attempt.outcome !== "skipped") {
+      upstreamErrors.inc({ provider: attempt.provider, kind: attempt.outcome });
+    } else if (attempt.status && attempt.status >= 400) {
+      // Error response passed through to the client
+      upstreamErrors.inc({
+        provider: attempt.provider,
+        kind: failureKind(attempt.status),
+      });
+    }
+    if (i < attempts.length - 1) {
+      fallbacks.inc({
+        alias,
+        provider: attempt.provider,
+        reason: attempt.outcome,
+      });
+    }
+  });
+
+  if (usage) {
+    tokens.inc({ ...labels, type: "prompt" }, usage.promptTokens);
+    tokens.inc({ ...labels, type: "completion" }, usage.completionTokens);
+  }
+}
+
+/** Counts a streaming request as in flight until its response is closed */
+export function trackStream(alias: string, res: http.ServerResponse): void {
+  streams.inc({ alias });
+  res.once("close", () => streams.inc({ alias }, -1));
+}
+
+const CIRCUIT_STATES: CircuitState[] = ["closed", "half_open", "open"];
+
+// Provider state is read from the live config at scrape time
+function providerLines(env: EnvConfig): string[] {
+  const providers = Array.from(env.providers.values());
+  return [
+    "# HELP passy_provider_up Whether discovery found an API format for the provider",
+    "# TYPE passy_provider_up gauge",
+    ...providers.map((p) =>
+      sample(
+        "passy_provider_up",
+        { provider: p.name },
+        Number(p.openai || p.anthropic || p.ollama)
+      )
+    ),
+    "# HELP passy_circuit_state Circuit breaker state (0 closed, 1 half-open, 2 open)",
+    "# TYPE passy_circuit_state gauge",
+    ...providers.map((p) =>
+      sample(
+        "passy_circuit_state",
+        { provider: p.name },
+        CIRCUIT_STATES.indexOf(p.circuit.state)
+      )
+    ),
+    "# HELP passy_provider_models Models discovered for the provider",
+    "# TYPE passy_provider_models gauge",
+    ...providers.map((p) =>
+      sample("passy_provider_models", { provider: p.name }, p.models.length)
+    ),
+  ];
+}
+
+/** All metrics in the Prometheus text format */
+export function renderMetrics(env: EnvConfig): string {
+  const lines = registry.flatMap((metric) => [
+    `# HELP ${metric.name} ${metric.help}`,
+    `# TYPE ${metric.name} ${metric.type}`,
+    ...metric.lines(),
+  ]);
+  return [...lines, ...providerLines(env)].join("\n") + "\n";
+}
@@ -0,0 +1,99 @@
+import type { Alias, EnvConfig, ModelCapabilities } from "./types.js";
+import { findModel, listsModels } from "./providers.js";
+
+// Model metadata for /v1/models: limits and capabilities of well-known
+// models, combined over an alias's targets (all of which must be known) and
+// overridden by the alias's own settings. Unknown values are null.
+
+interface ModelInfo {
+  contextWindow: number;
+  maxOutputTokens?: number;
+  tools: boolean;
+  vision: boolean;
+}
+
+// Pattern (against the lowercased upstream model name; first match wins),
+// context window, max output tokens and capabilities
+const MODEL_TABLE: [RegExp, number, number | undefined, string][] = [
+  [/gpt-5/, 400000, 128000, "tools vision"],
+  [/gpt-4\.1/, 1047576, 32768, "tools vision"],
+  [/gpt-4o/, 128000, 16384, "tools vision"],
+  [/gpt-3\.5-turbo/, 16385, 4096, "tools"],
+  [/(^|\/)o[134](-mini)?(-|$)/, 200000, 100000, "tools vision"],
+  [/claude-opus-4-5/, 200000, 64000, "tools vision"],
+  [/claude-opus-4/, 200000, 32000, "tools vision"],
+  [/claude-(sonnet|haiku)-4|claude-3-7-sonnet/, 200000, 64000, "tools vision"],
+  [/claude-3-5-(sonnet|haiku)/, 200000, 8192, "tools vision"],
+  [/gemini-2\.5/, 1048576, 65536, "tools vision"],
+  [/gemini-2\.0/, 1048576, 8192, "tools vision"],
+  [/llama-?3\.[123]/, 131072, undefined, "tools"],
+  [/deepseek-(v3|chat)/, 128000, undefined, "tools"],
+  [/deepseek-(r1|reasoner)/, 128000, undefined, ""],
+  [/mistral-large/, 128000, undefined, "tools"],
+];
+
+// `created` of every model, in seconds (2024-01-01T00:00:00Z). The gateway
+// knows no release dates, and a fixed value stays the same across restarts
+// and replicas.
+const CREATED = 1704067200;
+
+export function lookupModel(model: string): ModelInfo | undefined {
+  const name = model.toLowerCase();
+  const row = MODEL_TABLE.find(([pattern]) => pattern.test(name));
+  if (!row) return undefined;
+  const [, contextWindow, maxOutputTokens, capabilities] = row;
+  return {
+    contextWindow,
+    maxOutputTokens,
+    tools: capabilities.includes("tools"),
+    vision: capabilities.includes("vision"),
+  };
+}
+
+// The smallest value, as a request may be served by any target; null when
+// any target's is unknown
+function smallest(values: (number | undefined)[]): number | null {
+  if (values.some((value) => value === undefined)) return null;
+  return Math.min(...(values as number[]));
+}
+
+/** The /v1/models entry of an alias or pass-through model */
+export function describeModel(env: EnvConfig, alias: Alias) {
+  const infos = alias.targets.map((target) => lookupModel(target.model));
+  const known = infos.every((info) => info !== undefined)
+    ? (infos as ModelInfo[])
+    : null;
+  const capability = (name: "tools" | "vision"): boolean | null =>
+    alias.capabilities?.[name] ?? known?.every((info) => info[name]) ?? null;
+  const capabilities: Record<keyof ModelCapabilities, boolean | null> = {
+    tools: capability("tools"),
+    vision: capability("vision"),
+    // Every target's responses are streamed, whatever its format
+    streaming: alias.capabilities?.streaming ?? true,
+  };
+
+  return {
+    id: alias.name,
+    object: "model",
+    created: CREATED,
+    owned_by: alias.targets[0]?.provider || "unknown",
+    context_window:
+      alias.contextWindow ?? smallest(infos.map((info) => info?.contextWindow)),
+    max_output_tokens:
+      alias.maxOutputTokens ??
+      smallest(infos.map((info) => info?.maxOutputTokens)),
+    capabilities,
+    // `discovered` is null for providers that can't list their models
+    targets: alias.targets.map((target) => {
+      const provider = env.providers.get(target.provider);
+      return {
+        provider: target.provider,
+        model: target.model,
+        discovered:
+          provider && listsModels(provider)
+            ? findModel(provider, target.model) !== undefined
+            : null,
+      };
+    }),
+  };
+}
@@ -0,0 +1,221 @@
+import { InvalidRequestError } from "./errors.js";
+import { checkOpenAIChatRequest } from "./validation.js";
+
+// Converts OpenAI chat completion requests into Ollama /api/chat requests
+
+type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+  | { type: string; [key: string]: unknown };
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface OpenAIMessage {
+  role: string;
+  content?: string | OpenAIContentPart[] | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+interface OllamaMessage {
+  role: string;
+  content: string;
+  images?: string[];
+  tool_calls?: Array<{ function: { name: string; arguments: unknown } }>;
+  tool_name?: string;
+}
+
+export interface OllamaChatRequest {
+  messages?: OpenAIMessage[];
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  stop?: string | string[] | null;
+  stream?: boolean;
+  response_format?: {
+    type: string;
+    json_schema?: { schema?: unknown };
+  };
+  tools?: unknown[];
+  tool_choice?: unknown;
+  [key: string]: unknown;
+}
+
+// OpenAI sampling parameters Ollama takes under the same name in `options`
+const OPTIONS = [
+  "temperature",
+  "top_p",
+  "seed",
+  "presence_penalty",
+  "frequency_penalty",
+];
+
+// OpenAI parameters with no Ollama equivalent, rejected unless neutral as
+// for Anthropic providers
+const UNSUPPORTED_PARAMS = [
+  "n",
+  "logit_bias",
+  "logprobs",
+  "top_logprobs",
+  "reasoning_effort",
+  "prediction",
+  "audio",
+  "web_search_options",
+  "functions",
+  "function_call",
+];
+
+function isNeutral(param: string, value: unknown): boolean {
+  if (value === undefined || value === null || value === false) return true;
+  if (param === "n") return value === 1;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === "object") return Object.keys(value).length === 0;
+  return false;
+}
+
+function unsupported(param: string, reason?: string): InvalidRequestError {
+  return new InvalidRequestError(
+    `Parameter '${param}' is not supported by Ollama providers${
+      reason ? `: ${reason}` : ""
+    }`,
+    param,
+    "unsupported_parameter"
+  );
+}
+
+const DATA_URL = /^data:[^;,]+;base64,(.*)$/s;
+
+// Text parts are joined; images go to `images` as bare base64
+function convertContent(
+  content: OpenAIMessage["content"],
+  index: number
+): { content: string; images: string[] } {
+  if (!content) return { content: "", images: [] };
+  if (typeof content === "string") return { content, images: [] };
+
+  const text: string[] = [];
+  const images: string[] = [];
+  for (const part of content) {
+    if (part.type === "text") {
+      text.push((part as { text: string }).text);
+    } else if (part.type === "image_url") {
+      const { image_url } = part as { image_url: { url: string } };
+      const match = DATA_URL.exec(image_url.url);
+      if (!match) {
+        throw new InvalidRequestError(
+          "image_url must be a base64 data URL for Ollama providers",
+          `messages[${index}].content`
+        );
+      }
+      images.push(match[1]);
+    } else {
+      throw unsupported(
+        `messages[${index}].content`,
+        `content part type '${part.type}'`
+      );
+    }
+  }
+  return { content: text.join("\n"), images };
+}
+
+function convertToolCalls(
+  toolCalls: OpenAIToolCall[],
+  index: number
+): OllamaMessage["tool_calls"] {
+  return toolCalls.map((call) => {
+    try {
+      return {
+        function: {
+          name: call.function.name,
+          arguments: JSON.parse(call.function.arguments || "{}"),
+        },
+      };
+    } catch {
+      throw new InvalidRequestError(
+        `messages[${index}].tool_calls: arguments for '${call.function.name}' are not valid JSON`,
+        `messages[${index}].tool_calls`
+      );
+    }
+  });
+}
+
+/**
+ * Builds an Ollama `/api/chat` body from an OpenAI chat completion request.
+ * Sampling parameters move to `options`, images must be data URLs, tool
+ * results name their tool instead of the call, and `response_format`
+ * becomes `format`. Throws InvalidRequestError for anything that can't be
+ * mapped.
+ */
+export function toOllamaRequest(
+  body: OllamaChatRequest,
+  model: string
+): Record<string, unknown> {
+  checkOpenAIChatRequest(body);
+  for (const param of UNSUPPORTED_PARAMS) {
+    if (!isNeutral(param, body[param])) throw unsupported(param);
+  }
+
+  // Tool results name the tool, found by the ID of the call
+  const toolNames = new Map<string, string>();
+  const messages = (body.messages ?? []).map((message, index) => {
+    const { content, images } = convertContent(message.content, index);
+    const converted: OllamaMessage = { role: message.role, content };
+    if (message.role === "developer") converted.role = "system";
+    else if (!["system", "user", "assistant", "tool"].includes(message.role)) {
+      throw unsupported(`messages[${index}].role`, `role '${message.role}'`);
+    }
+    if (images.length > 0) converted.images = images;
+    if (message.role === "assistant" && message.tool_calls) {
+      for (const call of message.tool_calls) {
+        toolNames.set(call.id, call.function.name);
+      }
+      converted.tool_calls = convertToolCalls(message.tool_calls, index);
+    }
+    const toolName =
+      message.tool_call_id && toolNames.get(message.tool_call_id);
+    if (message.role === "tool" && toolName) converted.tool_name = toolName;
+    return converted;
+  });
+
+  const request: Record<string, unknown> = {
+    model,
+    messages,
+    // Ollama streams unless told not to
+    stream: Boolean(body.stream),
+  };
+
+  const options: Record<string, unknown> = {};
+  for (const param of OPTIONS) {
+    if (body[param] !== undefined && body[param] !== null) {
+      options[param] = body[param];
+    }
+  }
+  const maxTokens = body.max_completion_tokens ?? body.max_tokens;
+  if (maxTokens !== undefined && maxTokens !== null) {
+    options.num_predict = maxTokens;
+  }
+  if (body.stop) {
+    options.stop = Array.isArray(body.stop) ? body.stop : [body.stop];
+  }
+  if (Object.keys(options).length > 0) request.options = options;
+
+  const format = body.response_format;
+  if (format?.type === "json_object") request.format = "json";
+  else if (format?.type === "json_schema") {
+    request.format = format.json_schema?.schema ?? "json";
+  }
+
+  // Ollama picks tools itself: "none" drops them, forcing one is refused
+  const choice = body.tool_choice;
+  if (choice !== undefined && choice !== "auto" && choice !== "none") {
+    throw unsupported("tool_choice", "tools can't be forced");
+  }
+  if (body.tools && body.tools.length > 0 && choice !== "none") {
+    request.tools = body.tools;
+  }
+
+  return request;
+}
@@ -0,0 +1,189 @@
+import { randomUUID } from "node:crypto";
+import type { ResponseTranslator } from "./types.js";
+import { createNDJSONTransform, formatSSE } from "./sse.js";
+import type { OpenAIUsage } from "./anthropic-response.js";
+
+// Ollama /api/chat response shapes (only the fields we translate). Streams
+// are NDJSON: one of these per line, the last with `done: true` and the
+// token counts.
+interface OllamaToolCall {
+  function?: { name?: string; arguments?: unknown };
+}
+
+interface OllamaResponse {
+  model?: string;
+  created_at?: string;
+  message?: {
+    role?: string;
+    content?: string;
+    tool_calls?: OllamaToolCall[];
+  };
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+function mapUsage(response: OllamaResponse): OpenAIUsage {
+  const promptTokens = response.prompt_eval_count ?? 0;
+  const completionTokens = response.eval_count ?? 0;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+}
+
+function mapDoneReason(reason: string | undefined, toolCalls: boolean): string {
+  if (toolCalls) return "tool_calls";
+  return reason === "length" ? "length" : "stop";
+}
+
+function createdAt(response: OllamaResponse): number {
+  const ms = Date.parse(response.created_at ?? "");
+  return Math.floor((Number.isNaN(ms) ? Date.now() : ms) / 1000);
+}
+
+// Ollama's calls have no IDs; OpenAI clients need them to send results
+function convertToolCalls(calls: OllamaToolCall[]) {
+  return calls.map((call) => {
+    const args = call.function?.arguments ?? {};
+    return {
+      id: `call_${randomUUID().replace(/-/g, "").slice(0, 24)}`,
+      type: "function",
+      function: {
+        name: call.function?.name ?? "",
+        arguments: typeof args === "string" ? args : JSON.stringify(args),
+      },
+    };
+  });
+}
+
+function responseToCompletion(
+  response: OllamaResponse,
+  fallbackModel: string
+): Record<string, unknown> {
+  const toolCalls = convertToolCalls(response.message?.tool_calls ?? []);
+  const text = response.message?.content ?? "";
+  return {
+    id: `chatcmpl-${Date.now()}`,
+    object: "chat.completion",
+    created: createdAt(response),
+    model: response.model ?? fallbackModel,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: text || (toolCalls.length > 0 ? null : ""),
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        },
+        finish_reason: mapDoneReason(
+          response.done_reason,
+          toolCalls.length > 0
+        ),
+      },
+    ],
+    usage: mapUsage(response),
+  };
+}
+
+/**
+ * Translates Ollama `/api/chat` responses (JSON or NDJSON) into OpenAI
+ * `chat.completion` objects and `chat.completion.chunk` SSE events.
+ */
+export function ollamaToOpenAI(options: {
+  model: string;
+  includeUsage: boolean;
+}): ResponseTranslator {
+  return {
+    json(body) {
+      return responseToCompletion(body as OllamaResponse, options.model);
+    },
+
+    stream() {
+      const id = `chatcmpl-${Date.now()}`;
+      let model = options.model;
+      let created = Math.floor(Date.now() / 1000);
+      let started = false;
+      let toolCalls = 0;
+      let done = false;
+
+      function chunk(
+        delta: Record<string, unknown>,
+        finishReason: string | null = null
+      ): string {
+        return formatSSE({
+          id,
+          object: "chat.completion.chunk",
+          created,
+          model,
+          choices: [{ index: 0, delta, finish_reason: finishReason }],
+        });
+      }
+
+      function finish(response?: OllamaResponse): string {
+        if (done) return "";
+        done = true;
+        let out = "";
+        if (options.includeUsage && response) {
+          out += formatSSE({
+            id,
+            object: "chat.completion.chunk",
+            created,
+            model,
+            choices: [],
+            usage: mapUsage(response),
+          });
+        }
+        return out + formatSSE("[DONE]");
+      }
+
+      return createNDJSONTransform(
+        (line) => {
+          let response: OllamaResponse;
+          try {
+            response = JSON.parse(line) as OllamaResponse;
+          } catch {
+            return "";
+          }
+          if (response.error) {
+            return formatSSE({
+              error: { message: response.error, type: "upstream_error" },
+            });
+          }
+
+          let out = "";
+          if (!started) {
+            started = true;
+            model = response.model ?? model;
+            created = createdAt(response);
+            out += chunk({ role: "assistant", content: "" });
+          }
+          const message = response.message;
+          if (message?.content) out += chunk({ content: message.content });
+          // Calls arrive whole, each in one line
+          if (message?.tool_calls?.length) {
+            out += chunk({
+              tool_calls: convertToolCalls(message.tool_calls).map(
+                (call, i) => ({ index: toolCalls + i, ...call })
+              ),
+            });
+            toolCalls += message.tool_calls.length;
+          }
+          if (response.done) {
+            out += chunk(
+              {},
+              mapDoneReason(response.done_reason, toolCalls > 0)
+            );
+            out += finish(response);
+          }
+          return out;
+        },
+        // Always terminate with [DONE] even if the final line never arrived
+        () => finish()
+      );
+    },
+  };
+}
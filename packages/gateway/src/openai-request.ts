@@ -0,0 +1,231 @@
+import { checkAnthropicRequest } from "./validation.js";
+
+// Converts Anthropic Messages API requests into OpenAI chat completion requests
+
+interface AnthropicImageSource {
+  type: "base64" | "url";
+  media_type?: string;
+  data?: string;
+  url?: string;
+}
+
+interface AnthropicBlock {
+  type: string;
+  text?: string;
+  source?: AnthropicImageSource;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: string | AnthropicBlock[];
+  is_error?: boolean;
+}
+
+interface AnthropicMessageParam {
+  role: "user" | "assistant";
+  content: string | AnthropicBlock[];
+}
+
+interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema?: unknown;
+}
+
+interface AnthropicToolChoice {
+  type: "auto" | "any" | "tool" | "none";
+  name?: string;
+  disable_parallel_tool_use?: boolean;
+}
+
+export interface AnthropicRequest {
+  model?: string;
+  system?: string | AnthropicBlock[];
+  messages?: AnthropicMessageParam[];
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stop_sequences?: string[];
+  stream?: boolean;
+  tools?: AnthropicTool[];
+  tool_choice?: AnthropicToolChoice;
+  metadata?: { user_id?: string };
+}
+
+type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+type OpenAIMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: string | OpenAIContentPart[] }
+  | {
+      role: "assistant";
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+function blocksToText(content: string | AnthropicBlock[] | undefined): string {
+  if (content === undefined) return "";
+  if (typeof content === "string") return content;
+  return content
+    .filter((block) => block.type === "text")
+    .map((block) => block.text ?? "")
+    .join("\n");
+}
+
+function imageUrl(source: AnthropicImageSource): string {
+  if (source.type === "url") return source.url ?? "";
+  return `data:${source.media_type};base64,${source.data}`;
+}
+
+function convertMessage(message: AnthropicMessageParam): OpenAIMessage[] {
+  if (typeof message.content === "string") {
+    return [{ role: message.role, content: message.content }];
+  }
+
+  if (message.role === "assistant") {
+    const toolCalls: OpenAIToolCall[] = message.content
+      .filter((block) => block.type === "tool_use")
+      .map((block) => ({
+        id: block.id ?? "",
+        type: "function",
+        function: {
+          name: block.name ?? "",
+          arguments: JSON.stringify(block.input ?? {}),
+        },
+      }));
+    const text = blocksToText(message.content);
+    return [
+      {
+        role: "assistant",
+        content: text || (toolCalls.length > 0 ? null : ""),
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+      },
+    ];
+  }
+
+  // User turns: tool results become separate `tool` messages, which OpenAI
+  // requires to directly follow the assistant message that made the calls.
+  const result: OpenAIMessage[] = [];
+  const parts: OpenAIContentPart[] = [];
+
+  for (const block of message.content) {
+    if (block.type === "tool_result") {
+      const text = blocksToText(block.content);
+      result.push({
+        role: "tool",
+        tool_call_id: block.tool_use_id ?? "",
+        content: block.is_error ? `Error: ${text}` : text,
+      });
+      // Tool messages carry only text; images follow in the user message
+      if (Array.isArray(block.content)) {
+        for (const inner of block.content) {
+          if (inner.type === "image" && inner.source) {
+            parts.push({
+              type: "image_url",
+              image_url: { url: imageUrl(inner.source) },
+            });
+          }
+        }
+      }
+    } else if (block.type === "text") {
+      parts.push({ type: "text", text: block.text ?? "" });
+    } else if (block.type === "image" && block.source) {
+      parts.push({
+        type: "image_url",
+        image_url: { url: imageUrl(block.source) },
+      });
+    }
+  }
+
+  if (parts.length > 0) {
+    const onlyText = parts.every((part) => part.type === "text");
+    result.push({
+      role: "user",
+      content: onlyText
+        ? parts.map((part) => (part as { text: string }).text).join("\n")
+        : parts,
+    });
+  }
+
+  return result;
+}
+
+function convertToolChoice(
+  choice: AnthropicToolChoice
+): string | { type: "function"; function: { name: string } } {
+  switch (choice.type) {
+    case "any":
+      return "required";
+    case "tool":
+      return { type: "function", function: { name: choice.name ?? "" } };
+    case "none":
+      return "none";
+    default:
+      return "auto";
+  }
+}
+
+export function toOpenAIRequest(
+  body: AnthropicRequest,
+  model: string
+): Record<string, unknown> {
+  checkAnthropicRequest(body);
+  const messages: OpenAIMessage[] = [];
+
+  const system = blocksToText(body.system);
+  if (system) messages.push({ role: "system", content: system });
+
+  for (const message of body.messages ?? []) {
+    messages.push(...convertMessage(message));
+  }
+
+  const request: Record<string, unknown> = {
+    model,
+    messages,
+    max_tokens: body.max_tokens,
+    temperature: body.temperature,
+    top_p: body.top_p,
+    stop: body.stop_sequences,
+    user: body.metadata?.user_id,
+  };
+
+  if (body.stream) {
+    request.stream = true;
+    // Anthropic clients expect token counts in message_delta
+    request.stream_options = { include_usage: true };
+  }
+
+  if (body.tools && body.tools.length > 0) {
+    request.tools = body.tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.input_schema,
+      },
+    }));
+  }
+
+  if (body.tool_choice) {
+    request.tool_choice = convertToolChoice(body.tool_choice);
+    if (body.tool_choice.disable_parallel_tool_use) {
+      request.parallel_tool_calls = false;
+    }
+  }
+
+  // Drop unset fields so providers don't see explicit nulls
+  for (const key of Object.keys(request)) {
+    if (request[key] === undefined) delete request[key];
+  }
+
+  return request;
+}
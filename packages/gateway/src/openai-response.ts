@@ -0,0 +1,252 @@
+import type { ResponseTranslator } from "./types.js";
+import { createSSETransform, formatSSE } from "./sse.js";
+
+// OpenAI chat completion shapes (only the fields we translate)
+interface OpenAIToolCallDelta {
+  index?: number;
+  id?: string;
+  type?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface OpenAIChoice {
+  index?: number;
+  message?: {
+    content?: string | null;
+    tool_calls?: OpenAIToolCallDelta[];
+  };
+  delta?: {
+    content?: string | null;
+    tool_calls?: OpenAIToolCallDelta[];
+  };
+  finish_reason?: string | null;
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+interface OpenAICompletion {
+  id?: string;
+  model?: string;
+  choices?: OpenAIChoice[];
+  usage?: OpenAIUsage | null;
+  error?: { message?: string; type?: string };
+}
+
+const STOP_REASONS: Record<string, string> = {
+  stop: "end_turn",
+  length: "max_tokens",
+  tool_calls: "tool_use",
+  function_call: "tool_use",
+  content_filter: "refusal",
+};
+
+function mapFinishReason(reason: string | null | undefined): string {
+  return (reason && STOP_REASONS[reason]) || "end_turn";
+}
+
+function mapUsage(usage: OpenAIUsage | null | undefined): {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens?: number;
+} {
+  const cached = usage?.prompt_tokens_details?.cached_tokens ?? 0;
+  return {
+    input_tokens: (usage?.prompt_tokens ?? 0) - cached,
+    output_tokens: usage?.completion_tokens ?? 0,
+    ...(cached > 0 && { cache_read_input_tokens: cached }),
+  };
+}
+
+function messageId(id: string | undefined): string {
+  return id?.startsWith("msg_") ? id : `msg_${id ?? Date.now()}`;
+}
+
+function parseArguments(raw: string | undefined): unknown {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+function completionToMessage(
+  completion: OpenAICompletion,
+  fallbackModel: string
+): Record<string, unknown> {
+  const choice = completion.choices?.[0];
+  const content: Record<string, unknown>[] = [];
+
+  if (choice?.message?.content) {
+    content.push({ type: "text", text: choice.message.content });
+  }
+  for (const call of choice?.message?.tool_calls ?? []) {
+    content.push({
+      type: "tool_use",
+      id: call.id,
+      name: call.function?.name,
+      input: parseArguments(call.function?.arguments),
+    });
+  }
+
+  return {
+    id: messageId(completion.id),
+    type: "message",
+    role: "assistant",
+    model: completion.model ?? fallbackModel,
+    content,
+    stop_reason: mapFinishReason(choice?.finish_reason),
+    stop_sequence: null,
+    usage: mapUsage(completion.usage),
+  };
+}
+
+/**
+ * Translates OpenAI chat completion responses (JSON or SSE) into Anthropic
+ * `message` objects and Messages API stream events.
+ */
+export function openAIToAnthropic(options: {
+  model: string;
+}): ResponseTranslator {
+  return {
+    json(body) {
+      return completionToMessage(body as OpenAICompletion, options.model);
+    },
+
+    stream() {
+      let started = false;
+      let finished = false;
+      let stopReason = "end_turn";
+      let usage: OpenAIUsage | null | undefined;
+
+      // Index of the currently open Anthropic content block, and what it is
+      let blockIndex = -1;
+      let openBlock: "text" | "tool_use" | null = null;
+      // OpenAI tool call index -> Anthropic block index
+      const toolBlocks = new Map<number, number>();
+
+      function event(type: string, data: Record<string, unknown>): string {
+        return formatSSE({ type, ...data }, type);
+      }
+
+      function start(completion: OpenAICompletion): string {
+        if (started) return "";
+        started = true;
+        return event("message_start", {
+          message: {
+            id: messageId(completion.id),
+            type: "message",
+            role: "assistant",
+            model: completion.model ?? options.model,
+            content: [],
+            stop_reason: null,
+            stop_sequence: null,
+            usage: { input_tokens: 0, output_tokens: 0 },
+          },
+        });
+      }
+
+      function closeBlock(): string {
+        if (openBlock === null) return "";
+        openBlock = null;
+        return event("content_block_stop", { index: blockIndex });
+      }
+
+      function openNewBlock(block: Record<string, unknown>): string {
+        const out = closeBlock();
+        blockIndex++;
+        openBlock = block.type as "text" | "tool_use";
+        return (
+          out +
+          event("content_block_start", {
+            index: blockIndex,
+            content_block: block,
+          })
+        );
+      }
+
+      function finish(): string {
+        if (!started || finished) return "";
+        finished = true;
+        return (
+          closeBlock() +
+          event("message_delta", {
+            delta: { stop_reason: stopReason, stop_sequence: null },
+            usage: mapUsage(usage),
+          }) +
+          event("message_stop", {})
+        );
+      }
+
+      return createSSETransform(({ data }) => {
+        if (data === "[DONE]") return finish();
+
+        let completion: OpenAICompletion;
+        try {
+          completion = JSON.parse(data) as OpenAICompletion;
+        } catch {
+          return "";
+        }
+
+        if (completion.error) {
+          return event("error", {
+            error: {
+              type: "api_error",
+              message: completion.error.message ?? "Upstream error",
+            },
+          });
+        }
+
+        let out = start(completion);
+        if (completion.usage) usage = completion.usage;
+
+        const choice = completion.choices?.[0];
+        const delta = choice?.delta;
+
+        if (delta?.content) {
+          if (openBlock !== "text") {
+            out += openNewBlock({ type: "text", text: "" });
+          }
+          out += event("content_block_delta", {
+            index: blockIndex,
+            delta: { type: "text_delta", text: delta.content },
+          });
+        }
+
+        for (const call of delta?.tool_calls ?? []) {
+          const callIndex = call.index ?? 0;
+          let index = toolBlocks.get(callIndex);
+          if (index === undefined) {
+            out += openNewBlock({
+              type: "tool_use",
+              id: call.id ?? `toolu_${callIndex}`,
+              name: call.function?.name ?? "",
+              input: {},
+            });
+            index = blockIndex;
+            toolBlocks.set(callIndex, index);
+          }
+          if (call.function?.arguments) {
+            out += event("content_block_delta", {
+              index,
+              delta: {
+                type: "input_json_delta",
+                partial_json: call.function.arguments,
+              },
+            });
+          }
+        }
+
+        if (choice?.finish_reason) {
+          stopReason = mapFinishReason(choice.finish_reason);
+          out += closeBlock();
+        }
+
+        return out;
+      }, finish);
+    },
+  };
+}
@@ -0,0 +1,98 @@
+import type {
+  Alias,
+  AliasKind,
+  EnvConfig,
+  PassthroughConfig,
+} from "./types.js";
+import { findModel, listedModelId, listsModels } from "./providers.js";
+
+// Pass-through routing: a model name that matches no alias but names a
+// provider, as `provider/model` or `provider:model`, is sent straight to
+// that provider if discovery found the model there. Providers that can't
+// list their models (Azure OpenAI) take any model name. Admins restrict
+// the reachable models with allow and deny patterns, where `*` matches any
+// run of characters, e.g. `deepinfra/*` or `*/gpt-4o*`. Local servers'
+// model IDs are matched loosely: `ollama/llama3.2` finds `llama3.2:latest`,
+// and llama.cpp's model file paths go by their file name.
+
+export interface QualifiedModel {
+  id: string; // `provider/model`, by the model's listed name
+  provider: string;
+  model: string; // As discovered
+}
+
+function matches(pattern: string, id: string): boolean {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`, "i").test(id);
+}
+
+/** Whether the allow and deny patterns let clients reach the model */
+export function isReachable(config: PassthroughConfig, id: string): boolean {
+  if (config.deny.some((pattern) => matches(pattern, id))) return false;
+  return (
+    config.allow.length === 0 ||
+    config.allow.some((pattern) => matches(pattern, id))
+  );
+}
+
+/** Splits at the first `/` or `:`; the model may contain either */
+export function splitModelName(
+  name: string
+): { provider: string; model: string } | null {
+  const index = name.search(/[/:]/);
+  if (index <= 0 || index === name.length - 1) return null;
+  return {
+    provider: name.slice(0, index).toLowerCase(),
+    model: name.slice(index + 1),
+  };
+}
+
+function qualify(provider: string, model: string): QualifiedModel {
+  return { id: `${provider}/${listedModelId(model)}`, provider, model };
+}
+
+/**
+ * Finds the alias a request's model names, or for a reachable qualified
+ * name a single-target alias named `provider/model` of the route's kind.
+ */
+export function resolveModel(
+  env: EnvConfig,
+  name: string,
+  kind: AliasKind = "chat"
+): Alias | undefined {
+  const alias = env.aliases.get(name.toLowerCase());
+  if (alias || !env.passthrough) return alias;
+
+  const ref = splitModelName(name);
+  const provider = ref && env.providers.get(ref.provider);
+  if (!ref || !provider) return undefined;
+  // Model IDs are matched case-insensitively, as alias names are
+  const model = listsModels(provider)
+    ? findModel(provider, ref.model)
+    : ref.model;
+  if (!model) return undefined;
+
+  const qualified = qualify(provider.name, model);
+  if (!isReachable(env.passthrough, qualified.id)) return undefined;
+  return {
+    name: qualified.id,
+    kind,
+    targets: [{ provider: provider.name, model }],
+    strategy: "priority",
+    fallbackOn: [],
+  };
+}
+
+/** The discovered models clients may reach, for /v1/models */
+export function reachableModels(env: EnvConfig): QualifiedModel[] {
+  const config = env.passthrough;
+  if (!config) return [];
+  return Array.from(env.providers.values()).flatMap((provider) =>
+    provider.models
+      .map((model) => qualify(provider.name, model))
+      .filter((qualified) => isReachable(config, qualified.id))
+  );
+}
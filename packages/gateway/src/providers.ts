@@ -0,0 +1,240 @@
+import type {
+  AuthScheme,
+  Provider,
+  ProviderFormat,
+  ProviderKey,
+  ProviderType,
+} from "./types.js";
+
+// Provider types: the API format a provider speaks, where its API lives
+// below the configured URL and how it takes its key. Only "auto" providers
+// have their format probed by discovery. Types that local servers use
+// (Ollama, llama.cpp and vLLM as "openai") may run without a key.
+
+interface TypeDefaults {
+  format?: ProviderFormat; // Unset: probed
+  basePath: string; // May contain {model}
+  authScheme?: AuthScheme; // Unset: by format
+  keyless: boolean; // May be configured without a key unless told otherwise
+  listsModels: boolean; // Serves a model listing (/models, /api/tags)
+  embeddings: boolean; // Serves OpenAI's /embeddings
+  embeddingBatchSize?: number; // Default DEFAULT_EMBEDDING_BATCH_SIZE
+}
+
+const TYPE_DEFAULTS: Record<ProviderType, TypeDefaults> = {
+  auto: {
+    basePath: "/v1",
+    keyless: false,
+    listsModels: true,
+    embeddings: true,
+  },
+  openai: {
+    format: "openai",
+    basePath: "/v1",
+    keyless: false,
+    listsModels: true,
+    embeddings: true,
+  },
+  anthropic: {
+    format: "anthropic",
+    basePath: "/v1",
+    keyless: false,
+    listsModels: true,
+    embeddings: false,
+  },
+  // One deployment per model; the alias target names the deployment
+  "azure-openai": {
+    format: "openai",
+    basePath: "/openai/deployments/{model}",
+    authScheme: "api-key",
+    keyless: false,
+    listsModels: false,
+    embeddings: true,
+  },
+  gemini: {
+    format: "openai",
+    basePath: "/v1beta/openai",
+    keyless: false,
+    listsModels: true,
+    embeddings: true,
+    embeddingBatchSize: 100,
+  },
+  // Native API at the server root
+  ollama: {
+    format: "ollama",
+    basePath: "",
+    keyless: true,
+    listsModels: true,
+    embeddings: true,
+  },
+  openrouter: {
+    format: "openai",
+    basePath: "/api/v1",
+    keyless: false,
+    listsModels: true,
+    embeddings: true,
+  },
+};
+
+export const PROVIDER_TYPES = Object.keys(TYPE_DEFAULTS) as ProviderType[];
+
+export const AUTH_SCHEMES: AuthScheme[] = ["bearer", "x-api-key", "api-key"];
+
+export const DEFAULT_AZURE_API_VERSION = "2024-10-21";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+// OpenAI's limit on inputs per embeddings request
+const DEFAULT_EMBEDDING_BATCH_SIZE = 2048;
+
+type ApiEndpoint = "chat" | "models" | "embeddings";
+
+// Endpoint paths below the API root, by format
+const ENDPOINTS: Record<ProviderFormat, Record<ApiEndpoint, string>> = {
+  openai: {
+    chat: "/chat/completions",
+    models: "/models",
+    embeddings: "/embeddings",
+  },
+  anthropic: {
+    chat: "/messages",
+    models: "/models",
+    embeddings: "/embeddings",
+  },
+  // Ollama's own /api/embed differs from OpenAI's, served under /v1
+  ollama: {
+    chat: "/api/chat",
+    models: "/api/tags",
+    embeddings: "/v1/embeddings",
+  },
+};
+
+/** Leading slash, no trailing slash; "" when the URL is the API root */
+export function normalizeBasePath(path: string): string {
+  const trimmed = path.trim().replace(/\/+$/, "");
+  return trimmed && !trimmed.startsWith("/") ? `/${trimmed}` : trimmed;
+}
+
+export function defaultBasePath(type: ProviderType): string {
+  return TYPE_DEFAULTS[type].basePath;
+}
+
+/** The format fixed by the provider's type; undefined for "auto" */
+export function typeFormat(type: ProviderType): ProviderFormat | undefined {
+  return TYPE_DEFAULTS[type].format;
+}
+
+/** Whether providers of the type need no key unless configured otherwise */
+export function allowsNoKey(type: ProviderType): boolean {
+  return TYPE_DEFAULTS[type].keyless;
+}
+
+/** Whether discovery can list the provider's models */
+export function listsModels(provider: Provider): boolean {
+  return TYPE_DEFAULTS[provider.type].listsModels;
+}
+
+/**
+ * The name a discovered model is listed under. llama.cpp reports the model
+ * file's path; its listed name is the file name without `.gguf`.
+ */
+export function listedModelId(id: string): string {
+  if (!/\.gguf$/i.test(id)) return id;
+  return id.replace(/^.*[\\/]/, "").replace(/\.gguf$/i, "");
+}
+
+// Compared ignoring case and Ollama's default tag (`llama3.2:latest`)
+function modelKey(id: string): string {
+  return listedModelId(id)
+    .toLowerCase()
+    .replace(/:latest$/, "");
+}
+
+/** The discovered model ID a requested model name refers to */
+export function findModel(
+  provider: Provider,
+  name: string
+): string | undefined {
+  const lower = name.toLowerCase();
+  return (
+    provider.models.find((model) => model.toLowerCase() === lower) ??
+    provider.models.find((model) => modelKey(model) === modelKey(name))
+  );
+}
+
+export function defaultEmbeddingBatchSize(type: ProviderType): number {
+  return TYPE_DEFAULTS[type].embeddingBatchSize ?? DEFAULT_EMBEDDING_BATCH_SIZE;
+}
+
+/**
+ * Whether the provider serves OpenAI's /embeddings. Before discovery an
+ * "auto" provider is assumed to; one found to speak only Anthropic's
+ * format doesn't.
+ */
+export function supportsEmbeddings(provider: Provider): boolean {
+  if (provider.embeddings !== undefined) return provider.embeddings;
+  if (!TYPE_DEFAULTS[provider.type].embeddings) return false;
+  return provider.openai || !provider.anthropic;
+}
+
+/**
+ * The format to send requests in. An "auto" provider that discovery found
+ * no format for is assumed to speak OpenAI's.
+ */
+export function providerFormat(provider: Provider): ProviderFormat {
+  return (
+    typeFormat(provider.type) ?? (provider.anthropic ? "anthropic" : "openai")
+  );
+}
+
+/**
+ * Request path (with query) of an endpoint below the API root, such as
+ * "/chat/completions". A path in the provider URL is kept as a prefix.
+ */
+export function upstreamPath(
+  provider: Provider,
+  endpoint: string,
+  model = ""
+): string {
+  const prefix = new URL(provider.url).pathname.replace(/\/+$/, "");
+  const base = provider.basePath.replace("{model}", encodeURIComponent(model));
+  const query =
+    provider.type === "azure-openai"
+      ? `?api-version=${encodeURIComponent(
+          provider.apiVersion ?? DEFAULT_AZURE_API_VERSION
+        )}`
+      : "";
+  return `${prefix}${base}${endpoint}${query}`;
+}
+
+/** Path (with query) of one of the format's endpoints */
+export function endpointPath(
+  provider: Provider,
+  format: ProviderFormat,
+  endpoint: ApiEndpoint,
+  model = ""
+): string {
+  return upstreamPath(provider, ENDPOINTS[format][endpoint], model);
+}
+
+/**
+ * Headers that authenticate a request in the given format; none but the
+ * format's own for a keyless provider
+ */
+export function authHeaders(
+  provider: Provider,
+  format: ProviderFormat,
+  key: ProviderKey
+): Record<string, string> {
+  const scheme =
+    provider.authScheme ??
+    TYPE_DEFAULTS[provider.type].authScheme ??
+    (format === "anthropic" ? "x-api-key" : "bearer");
+  const headers: Record<string, string> = !key.key
+    ? {}
+    : scheme === "bearer"
+    ? { Authorization: `Bearer ${key.key}` }
+    : { [scheme]: key.key };
+  if (format === "anthropic") headers["anthropic-version"] = ANTHROPIC_VERSION;
+  return headers;
+}
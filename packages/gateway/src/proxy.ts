@@ -1,7 +1,61 @@
 import type http from "node:http";
 import https from "node:https";
 import httpModule from "node:http";
-import type { Provider, Alias } from "./types.js";
+import { Readable } from "node:stream";
+import type {
+  ClientResponse,
+  Provider,
+  ProviderKey,
+  Alias,
+  Dialect,
+  FailureKind,
+  ProviderFormat,
+  RequestContext,
+  ResponseTranslator,
+  TimeoutPhase,
+  Timeouts,
+  TokenUsage,
+} from "./types.js";
+import { anthropicToOpenAI } from "./anthropic-response.js";
+import { openAIToAnthropic } from "./openai-response.js";
+import { ollamaToOpenAI } from "./ollama-response.js";
+import { toOpenAIRequest, type AnthropicRequest } from "./openai-request.js";
+import {
+  toAnthropicRequest,
+  type OpenAIChatRequest,
+} from "./anthropic-request.js";
+import { toOllamaRequest } from "./ollama-request.js";
+import { InvalidRequestError } from "./errors.js";
+import { createUsageReader, stripStreamUsage } from "./usage.js";
+import { createSSEParser } from "./sse.js";
+import {
+  acquire,
+  consumeTokens,
+  sendRateLimited,
+  type LimitedScope,
+} from "./ratelimit.js";
+import { log, logsBodies } from "./logger.js";
+import {
+  allowRequest,
+  recordFailure,
+  recordSuccess,
+  releaseProbe,
+} from "./circuit.js";
+import { orderTargets, recordLatency, trackInFlight } from "./balancer.js";
+import {
+  benchKey,
+  canRotateKey,
+  isBenched,
+  isKeyFailure,
+  maskKey,
+  selectKey,
+} from "./keypool.js";
+import {
+  authHeaders,
+  endpointPath,
+  providerFormat,
+  supportsEmbeddings,
+} from "./providers.js";
 
 // Connection pooling agents for upstream calls
 const httpsAgent = new https.Agent({
@@ -18,13 +72,307 @@ const httpAgent = new httpModule.Agent({
   timeout: 60000,
 });
 
+// Maximum number of bytes of a failed upstream body kept for error details
+const MAX_ERROR_BODY = 2048;
+
+// Maximum number of bytes of a response body logged with `logging.bodies`
+const MAX_LOGGED_BODY = 64 * 1024;
+
+export interface UpstreamFailure {
+  kind: FailureKind;
+  status?: number;
+  message: string;
+  timeout?: { phase: TimeoutPhase; ms: number }; // Set for kind "timeout"
+}
+
+function classifyStatus(status: number): FailureKind | null {
+  if (status === 429) return "rate_limit";
+  if (status >= 500) return "5xx";
+  if (status >= 400) return "4xx";
+  return null;
+}
+
+function timeoutMessage(phase: TimeoutPhase, ms: number): string {
+  switch (phase) {
+    case "connect":
+      return `Upstream connection not established within ${ms}ms`;
+    case "first_byte":
+      return `No response from upstream within ${ms}ms`;
+    case "total":
+      return `Upstream request did not complete within ${ms}ms`;
+    case "idle":
+      return `Upstream sent no data for ${ms}ms`;
+  }
+}
+
+// Once the client has received bytes we can no longer fall back to another
+// target, so the error is reported inside the stream and the response ended.
+function endWithStreamError(
+  res: ClientResponse,
+  isSSE: boolean,
+  dialect: Dialect,
+  message: string
+): void {
+  if (res.writableEnded) return;
+  if (isSSE && dialect === "anthropic") {
+    const error = { type: "error", error: { type: "api_error", message } };
+    res.write(`event: error\ndata: ${JSON.stringify(error)}\n\n`);
+  } else if (isSSE) {
+    res.write(
+      `data: ${JSON.stringify({
+        error: { message, type: "upstream_error" },
+      })}\n\n`
+    );
+  }
+  res.end();
+}
+
+/**
+ * Turns an OpenAI chat completion into an OpenAI chat.completion.chunk SSE
+ * stream: one chunk with the whole message (text and tool calls), one with
+ * the finish reason (and usage, if any and wanted) and a final [DONE]
+ * sentinel.
+ */
+export function completionToSSE(
+  value: unknown,
+  fallbackModel: string,
+  includeUsage: boolean
+): string {
+  const completion = value as {
+    id?: string;
+    object?: string;
+    created?: number;
+    model?: string;
+    choices?: Array<{
+      index?: number;
+      message?: {
+        role?: string;
+        content?: string | null;
+        tool_calls?: Array<{
+          id?: string;
+          type?: string;
+          function?: { name?: string; arguments?: string };
+        }>;
+      };
+      finish_reason?: string | null;
+    }>;
+    usage?: unknown;
+    [key: string]: unknown;
+  };
+
+  const baseId = completion.id ?? `chatcmpl-${Date.now()}`;
+  const baseCreated = completion.created ?? Math.floor(Date.now() / 1000);
+  const baseModel = completion.model ?? fallbackModel;
+
+  const firstChoice = completion.choices?.[0];
+  const messageContent = firstChoice?.message?.content ?? "";
+  const toolCalls = firstChoice?.message?.tool_calls ?? [];
+  const finishReason = firstChoice?.finish_reason ?? "stop";
+
+  // First SSE chunk: delta with assistant role, content and tool calls.
+  const deltaChunk = {
+    id: baseId,
+    object: "chat.completion.chunk",
+    created: baseCreated,
+    model: baseModel,
+    choices: [
+      {
+        index: 0,
+        delta: {
+          role: "assistant",
+          content: messageContent,
+          ...(toolCalls.length > 0 && {
+            tool_calls: toolCalls.map((call, index) => ({
+              index,
+              id: call.id,
+              type: call.type ?? "function",
+              function: {
+                name: call.function?.name ?? "",
+                arguments: call.function?.arguments ?? "",
+              },
+            })),
+          }),
+        },
+        finish_reason: null,
+      },
+    ],
+  };
+
+  // Second SSE chunk: finish event (empty delta, finish_reason + usage if present).
+  const finishChunk: Record<string, unknown> = {
+    id: baseId,
+    object: "chat.completion.chunk",
+    created: baseCreated,
+    model: baseModel,
+    choices: [
+      {
+        index: 0,
+        delta: {},
+        finish_reason: finishReason,
+      },
+    ],
+  };
+
+  if (completion.usage && includeUsage) {
+    finishChunk.usage = completion.usage;
+  }
+
+  return (
+    `data: ${JSON.stringify(deltaChunk)}\n\n` +
+    `data: ${JSON.stringify(finishChunk)}\n\n` +
+    "data: [DONE]\n\n"
+  );
+}
+
+interface StreamedChoice {
+  index: number;
+  message: {
+    role: string;
+    content: string | null;
+    tool_calls?: Array<{
+      id?: string;
+      type: string;
+      function: { name: string; arguments: string };
+    }>;
+  };
+  finish_reason: string | null;
+}
+
+/**
+ * The reverse of `completionToSSE`: assembles the chat completion an OpenAI
+ * chat.completion.chunk stream adds up to. `finish` returns undefined for a
+ * stream that never finished a choice or reported an error.
+ */
+function createCompletionReader(): {
+  push(chunk: Buffer): void;
+  finish(): Record<string, unknown> | undefined;
+} {
+  const choices = new Map<number, StreamedChoice>();
+  let head: { id?: string; created?: number; model?: string } | undefined;
+  let usage: unknown;
+  let failed = false;
+
+  const parser = createSSEParser(({ data }) => {
+    if (data === "[DONE]") return;
+    let chunk: {
+      id?: string;
+      created?: number;
+      model?: string;
+      choices?: Array<{
+        index?: number;
+        delta?: {
+          role?: string;
+          content?: string | null;
+          tool_calls?: Array<{
+            index?: number;
+            id?: string;
+            type?: string;
+            function?: { name?: string; arguments?: string };
+          }>;
+        };
+        finish_reason?: string | null;
+      }>;
+      usage?: unknown;
+      error?: unknown;
+    };
+    try {
+      chunk = JSON.parse(data) as typeof chunk;
+    } catch {
+      return;
+    }
+    if (chunk.error) failed = true;
+    head ??= chunk;
+    if (chunk.usage) usage = chunk.usage;
+
+    for (const { index = 0, delta, finish_reason } of chunk.choices ?? []) {
+      let choice = choices.get(index);
+      if (!choice) {
+        choice = {
+          index,
+          message: { role: "assistant", content: null },
+          finish_reason: null,
+        };
+        choices.set(index, choice);
+      }
+      const message = choice.message;
+      if (delta?.role) message.role = delta.role;
+      if (delta?.content)
+        message.content = (message.content ?? "") + delta.content;
+      for (const call of delta?.tool_calls ?? []) {
+        message.tool_calls ??= [];
+        const open = (message.tool_calls[call.index ?? 0] ??= {
+          id: call.id,
+          type: "function",
+          function: { name: "", arguments: "" },
+        });
+        if (call.id) open.id = call.id;
+        if (call.function?.name) open.function.name += call.function.name;
+        open.function.arguments += call.function?.arguments ?? "";
+      }
+      if (finish_reason) choice.finish_reason = finish_reason;
+    }
+  });
+
+  return {
+    push: (chunk) => parser.push(chunk),
+    finish() {
+      parser.flush();
+      const list = [...choices.values()].sort((a, b) => a.index - b.index);
+      if (failed || list.length === 0) return undefined;
+      if (list.some((choice) => !choice.finish_reason)) return undefined;
+      return {
+        id: head?.id,
+        object: "chat.completion",
+        created: head?.created,
+        model: head?.model,
+        choices: list,
+        ...(usage !== undefined && { usage }),
+      };
+    },
+  };
+}
+
+/**
+ * One attempt against one provider. Responses are translated in two steps:
+ * `toOpenAI` turns the provider's shape into OpenAI chat completions and
+ * `fromOpenAI` turns that into the client's dialect. Either may be absent.
+ * `toClient` then reshapes OpenAI chat answers for endpoints served through
+ * chat completions.
+ */
+interface UpstreamRequest {
+  provider: Provider;
+  providerKey: ProviderKey;
+  path: string;
+  body: Record<string, unknown>;
+  format: ProviderFormat;
+  dialect: Dialect;
+  toOpenAI?: ResponseTranslator;
+  fromOpenAI?: ResponseTranslator;
+  toClient?: ResponseTranslator;
+  timeouts: Timeouts;
+  requestId?: string; // Forwarded as x-request-id
+  onUsage?: (usage: TokenUsage) => void;
+  onCompletion?: (completion: unknown) => void; // Successful answer
+  onCommit?: (status: number) => void; // Response goes to the client
+  onFirstByte?: () => void; // First body byte of the committed response
+}
+
+/**
+ * Sends a single request upstream. Status and headers are inspected before
+ * anything is written to the client: if the response (or a socket error or
+ * timeout) is a retryable failure, `onFailure` is called instead and the
+ * client response is left untouched so the caller can try the next target.
+ * Returning `false` from `shouldFallback` commits the failed response as-is.
+ * If the client disconnects, the upstream request is destroyed.
+ */
 function proxyRequest(
-  provider: Provider,
-  path: string,
-  body: Record<string, unknown>,
-  format: "openai" | "anthropic",
-  res: http.ServerResponse
+  request: UpstreamRequest,
+  res: ClientResponse,
+  shouldFallback: (failure: UpstreamFailure) => boolean,
+  onFailure: (failure: UpstreamFailure) => void
 ): void {
+  const { provider, path, body, format, dialect, timeouts, requestId } =
+    request;
   const payload = JSON.stringify(body);
   const url = new URL(provider.url);
   const isHttps = url.protocol === "https:";
@@ -32,16 +380,15 @@ function proxyRequest(
   const requestModule = isHttps ? https : httpModule;
 
   const headers: Record<string, string> = {
+    ...provider.headers,
     "Content-Type": "application/json",
     "Content-Length": Buffer.byteLength(payload).toString(),
   };
 
-  if (format === "openai") {
-    headers["Authorization"] = `Bearer ${provider.key}`;
-  } else {
-    headers["x-api-key"] = provider.key;
-    headers["anthropic-version"] = "2023-06-01";
-  }
+  Object.assign(headers, authHeaders(provider, format, request.providerKey));
+  if (requestId) headers["x-request-id"] = requestId;
+
+  const logFields = { request_id: requestId, provider: provider.name };
 
   const options: https.RequestOptions = {
     hostname: url.hostname,
@@ -50,23 +397,264 @@ function proxyRequest(
     method: "POST",
     agent,
     headers,
+    // Socket inactivity limit; 0 also overrides the agent's default
+    timeout: timeouts.idle ?? 0,
   };
 
+  // `settled`: the attempt can no longer fall back (response committed,
+  // failure reported or client gone). `aborted`: we destroyed the upstream
+  // request ourselves, so the socket errors that follow are expected.
+  let settled = false;
+  let aborted = false;
+  let streamingToClient = false;
+  const timers: NodeJS.Timeout[] = [];
+
+  function clearTimers(): void {
+    for (const timer of timers) clearTimeout(timer);
+    timers.length = 0;
+  }
+
+  function startTimer(phase: TimeoutPhase, ms: number): NodeJS.Timeout {
+    const timer = setTimeout(() => onTimeout(phase, ms), ms);
+    timers.push(timer);
+    return timer;
+  }
+
+  function abort(): void {
+    aborted = true;
+    clearTimers();
+    res.off("close", onClientClose);
+    upstream.destroy();
+  }
+
+  function fail(failure: UpstreamFailure): void {
+    if (settled) return;
+    settled = true;
+    clearTimers();
+    res.off("close", onClientClose);
+    onFailure(failure);
+  }
+
+  function onTimeout(phase: TimeoutPhase, ms: number): void {
+    const message = timeoutMessage(phase, ms);
+    log.warn(message, { ...logFields, phase, timeout_ms: ms });
+    abort();
+    if (settled) {
+      endWithStreamError(res, streamingToClient, dialect, message);
+      return;
+    }
+    fail({ kind: "timeout", message, timeout: { phase, ms } });
+  }
+
+  // A cancelled client request (e.g. an IDE dropping a completion) must not
+  // leave the provider generating tokens nobody reads.
+  function onClientClose(): void {
+    if (res.writableFinished) return;
+    log.info("Client disconnected, aborting upstream request", logFields);
+    settled = true;
+    abort();
+  }
+
+  const firstByteTimer = timeouts.firstByte
+    ? startTimer("first_byte", timeouts.firstByte)
+    : undefined;
+  if (timeouts.total) startTimer("total", timeouts.total);
+
   const upstream = requestModule.request(options, (upRes) => {
+    upRes.on("close", clearTimers);
+    if (!firstByteTimer) {
+      handleResponse(upRes);
+      return;
+    }
+
+    // Hold the response until body data arrives, so a provider that sends
+    // headers but no tokens can still be abandoned for the next target.
+    upRes.once("readable", () => {
+      clearTimeout(firstByteTimer);
+      if (settled) return;
+      handleResponse(upRes);
+      upRes.resume();
+    });
+    upRes.on("error", (err) => {
+      if (!aborted) fail({ kind: "network", message: err.message });
+    });
+  });
+
+  function handleResponse(upRes: http.IncomingMessage): void {
+    const statusCode = upRes.statusCode || 200;
+    const failureKind = classifyStatus(statusCode);
+    benchKey(provider, request.providerKey, statusCode, upRes.headers);
+
+    if (failureKind) {
+      const failure: UpstreamFailure = {
+        kind: failureKind,
+        status: statusCode,
+        message: `HTTP ${statusCode}`,
+      };
+      if (shouldFallback(failure)) {
+        // Drain the error body (keeping a prefix for the error details) and
+        // hand control back to the caller without touching the client.
+        const chunks: Buffer[] = [];
+        let size = 0;
+        upRes.on("data", (chunk: Buffer) => {
+          if (size < MAX_ERROR_BODY) chunks.push(chunk);
+          size += chunk.length;
+        });
+        upRes.on("end", () => {
+          const detail = Buffer.concat(chunks)
+            .toString("utf8")
+            .slice(0, MAX_ERROR_BODY)
+            .trim();
+          fail({
+            ...failure,
+            message: detail ? `${failure.message}: ${detail}` : failure.message,
+          });
+        });
+        upRes.on("error", (err) =>
+          fail({ ...failure, message: `${failure.message}: ${err.message}` })
+        );
+        return;
+      }
+    }
+
+    settled = true;
+    request.onCommit?.(statusCode);
+    if (request.onFirstByte) upRes.once("data", request.onFirstByte);
+
     // Detect whether the client requested streaming and whether the upstream
-    // is already sending SSE. We want to:
+    // is already streaming (SSE, or Ollama's NDJSON). We want to:
     // - passthrough real SSE streams from providers like OpenAI, and
     // - convert single JSON responses into OpenAI-style SSE when stream=true.
     const wantsStream = Boolean((body as { stream?: boolean }).stream);
     const upstreamContentType = upRes.headers["content-type"] || "";
     const upstreamIsSSE = upstreamContentType.includes("text/event-stream");
+    const upstreamIsNDJSON = upstreamContentType.includes("ndjson");
+    const upstreamStreams = upstreamIsSSE || upstreamIsNDJSON;
+    streamingToClient = upstreamStreams || wantsStream;
+
+    // Upstream dropped the connection after we started forwarding the body.
+    upRes.on("aborted", () => {
+      if (aborted) return;
+      log.error("Upstream aborted mid-response", logFields);
+      endWithStreamError(
+        res,
+        streamingToClient,
+        dialect,
+        "Upstream connection closed unexpectedly"
+      );
+    });
+    upRes.on("error", (err) => {
+      if (aborted) return;
+      log.error("Upstream response error", {
+        ...logFields,
+        error: err.message,
+      });
+      endWithStreamError(
+        res,
+        streamingToClient,
+        dialect,
+        "Upstream connection closed unexpectedly"
+      );
+    });
+
+    // Token usage is read from the upstream body as it passes through, so
+    // it doesn't depend on the client's dialect or any translation
+    if (request.onUsage && statusCode < 300) {
+      const onUsage = request.onUsage;
+      const reader = createUsageReader(
+        upstreamIsSSE ? "sse" : upstreamIsNDJSON ? "ndjson" : "json"
+      );
+      upRes.on("data", (chunk: Buffer) => reader.push(chunk));
+      upRes.on("end", () => {
+        const usage = reader.finish();
+        if (usage) onUsage(usage);
+      });
+    }
+
+    // Successful answers are reported in OpenAI shape, whatever the
+    // client's dialect. Runs from an event handler, where a throw would be
+    // uncaught.
+    const reportCompletion = (completion: () => unknown) => {
+      try {
+        request.onCompletion?.(completion());
+      } catch (err) {
+        log.error("Failed to report completion", {
+          ...logFields,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    };
+    if (request.onCompletion && statusCode < 300 && !upstreamStreams) {
+      const { toOpenAI } = request;
+      const chunks: Buffer[] = [];
+      upRes.on("data", (chunk: Buffer) => chunks.push(chunk));
+      upRes.on("end", () => {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+        } catch {
+          return; // Not JSON; the client gets it as-is
+        }
+        reportCompletion(() => (toOpenAI ? toOpenAI.json(parsed) : parsed));
+      });
+    }
+
+    // A stream is assembled from its OpenAI form, before any translation
+    // for the client, once it has ended in full. Usage the stream doesn't
+    // carry (the client didn't ask for it) is read from the upstream body.
+    const readStreamedCompletion = (stream: Readable) => {
+      if (!request.onCompletion || statusCode >= 300) return;
+      const reader = createCompletionReader();
+      const usageReader = createUsageReader(upstreamIsSSE ? "sse" : "ndjson");
+      upRes.on("data", (chunk: Buffer) => usageReader.push(chunk));
+      stream.on("data", (chunk: Buffer) => reader.push(chunk));
+      stream.on("end", () => {
+        const completion = reader.finish();
+        if (!completion) return;
+        const usage = usageReader.finish();
+        if (!completion.usage && usage) {
+          completion.usage = {
+            prompt_tokens: usage.promptTokens,
+            completion_tokens: usage.completionTokens,
+            total_tokens: usage.promptTokens + usage.completionTokens,
+          };
+        }
+        reportCompletion(() => completion);
+      });
+    };
+
+    if (logsBodies()) {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      upRes.on("data", (chunk: Buffer) => {
+        if (size < MAX_LOGGED_BODY) chunks.push(chunk);
+        size += chunk.length;
+      });
+      upRes.on("end", () => {
+        log.debug("Response body", {
+          ...logFields,
+          status: statusCode,
+          body: Buffer.concat(chunks)
+            .toString("utf8")
+            .slice(0, MAX_LOGGED_BODY),
+          truncated: size > MAX_LOGGED_BODY || undefined,
+        });
+      });
+    }
+
+    // Upstream error bodies are forwarded untranslated
+    const translators = (
+      statusCode < 300
+        ? [request.toOpenAI, request.fromOpenAI, request.toClient]
+        : []
+    ).filter((t): t is ResponseTranslator => t !== undefined);
 
     // Case 1: Upstream is already streaming (OpenAI-style SSE) or client did not request stream.
     // In this case we just proxy the response as-is and keep headers simple.
-    if (upstreamIsSSE || !wantsStream) {
-      const isStreaming = upstreamIsSSE || wantsStream;
+    if (upstreamStreams || !wantsStream) {
+      const isStreaming = upstreamStreams || wantsStream;
 
-      res.writeHead(upRes.statusCode || 200, {
+      res.writeHead(statusCode, {
         "Content-Type": isStreaming ? "text/event-stream" : "application/json",
         ...(isStreaming && {
           "Cache-Control": "no-cache",
@@ -74,13 +662,48 @@ function proxyRequest(
         }),
       });
 
-      upRes.pipe(res);
+      if (upstreamStreams && !request.toOpenAI) readStreamedCompletion(upRes);
+      if (translators.length === 0) {
+        upRes.pipe(res);
+      } else if (upstreamStreams) {
+        translators
+          .reduce<Readable>((stream, t) => {
+            const next = stream.pipe(t.stream());
+            if (t === request.toOpenAI) readStreamedCompletion(next);
+            return next;
+          }, upRes)
+          .pipe(res);
+      } else {
+        const chunks: Buffer[] = [];
+        upRes.on("data", (chunk: Buffer) => chunks.push(chunk));
+        upRes.on("end", () => {
+          const rawBody = Buffer.concat(chunks).toString("utf8");
+          try {
+            const translated = translators.reduce<unknown>(
+              (json, t) => t.json(json),
+              JSON.parse(rawBody)
+            );
+            res.end(JSON.stringify(translated));
+          } catch (err) {
+            log.error("Failed to translate response", {
+              ...logFields,
+              error: err instanceof Error ? err.message : String(err),
+            });
+            res.end(rawBody);
+          }
+        });
+      }
       return;
     }
 
     // Case 2: Client requested stream=true but upstream responded with a single JSON body.
     // To keep IDEs like Cursor compatible, we transform the JSON response into
     // an OpenAI chat.completion.chunk SSE stream with a final [DONE] sentinel.
+    // The stream is then translated into the client's dialect if needed.
+    const toOpenAI = statusCode < 300 ? request.toOpenAI : undefined;
+    const fromOpenAI = (
+      statusCode < 300 ? [request.fromOpenAI, request.toClient] : []
+    ).filter((t): t is ResponseTranslator => t !== undefined);
     const chunks: Buffer[] = [];
 
     upRes.on("data", (chunk: Buffer) => {
@@ -88,136 +711,279 @@ function proxyRequest(
     });
 
     upRes.on("end", () => {
-      const statusCode = upRes.statusCode || 200;
       const rawBody = Buffer.concat(chunks).toString("utf8");
 
       try {
-        const completion = JSON.parse(rawBody) as {
-          id?: string;
-          object?: string;
-          created?: number;
-          model?: string;
-          choices?: Array<{
-            index?: number;
-            message?: { role?: string; content?: string };
-            finish_reason?: string | null;
-          }>;
-          usage?: unknown;
-          [key: string]: unknown;
-        };
-
-        const baseId = completion.id ?? `chatcmpl-${Date.now()}`;
-        const baseCreated =
-          completion.created ?? Math.floor(Date.now() / 1000);
-        const baseModel =
-          completion.model ??
-          (body.model as string | undefined) ??
-          provider.name;
-
-        const firstChoice = completion.choices?.[0];
-        const messageContent =
-          firstChoice?.message?.content ?? rawBody;
-        const finishReason = firstChoice?.finish_reason ?? "stop";
-
-        // First SSE chunk: delta with assistant role and content.
-        const deltaChunk = {
-          id: baseId,
-          object: "chat.completion.chunk",
-          created: baseCreated,
-          model: baseModel,
-          choices: [
-            {
-              index: 0,
-              delta: {
-                role: "assistant",
-                content: messageContent,
-              },
-              finish_reason: null,
-            },
-          ],
-        };
-
-        // Second SSE chunk: finish event (empty delta, finish_reason + usage if present).
-        const finishChunk: Record<string, unknown> = {
-          id: baseId,
-          object: "chat.completion.chunk",
-          created: baseCreated,
-          model: baseModel,
-          choices: [
-            {
-              index: 0,
-              delta: {},
-              finish_reason: finishReason,
-            },
-          ],
-        };
-
-        if (completion.usage) {
-          finishChunk.usage = completion.usage;
-        }
-
-        const ssePayload =
-          `data: ${JSON.stringify(deltaChunk)}\n\n` +
-          `data: ${JSON.stringify(finishChunk)}\n\n` +
-          "data: [DONE]\n\n";
+        const parsed: unknown = JSON.parse(rawBody);
+        // Usage is kept: `fromOpenAI` drops it for a client that didn't
+        // ask, as it does for an OpenAI provider's real stream
+        const ssePayload = completionToSSE(
+          toOpenAI ? toOpenAI.json(parsed) : parsed,
+          (body.model as string | undefined) ?? provider.name,
+          true
+        );
 
         res.writeHead(statusCode, {
           "Content-Type": "text/event-stream",
           "Cache-Control": "no-cache",
           Connection: "keep-alive",
         });
-        res.end(ssePayload);
+        if (fromOpenAI.length > 0) {
+          fromOpenAI
+            .reduce<Readable>(
+              (stream, t) => stream.pipe(t.stream()),
+              Readable.from([ssePayload])
+            )
+            .pipe(res);
+        } else {
+          res.end(ssePayload);
+        }
       } catch (err) {
         // If anything goes wrong during transformation, fall back to JSON
         // so the client at least receives a valid response.
-        console.error(
-          `[${provider.name}] Failed to transform JSON response to SSE:`,
-          err
-        );
+        log.error("Failed to transform JSON response to SSE", {
+          ...logFields,
+          error: err instanceof Error ? err.message : String(err),
+        });
         res.writeHead(statusCode, { "Content-Type": "application/json" });
         res.end(rawBody);
       }
     });
-  });
+  }
+
+  if (timeouts.connect) {
+    const connectMs = timeouts.connect;
+    upstream.once("socket", (socket) => {
+      if (!socket.connecting) return; // Reused keep-alive connection
+      const timer = startTimer("connect", connectMs);
+      socket.once(isHttps ? "secureConnect" : "connect", () =>
+        clearTimeout(timer)
+      );
+    });
+  }
+
+  res.once("close", onClientClose);
 
   upstream.on("error", (err) => {
-    console.error(`[${provider.name}] Upstream error:`, err.message);
-    res.writeHead(502, { "Content-Type": "application/json" });
-    res.end(JSON.stringify({ error: "Upstream service unavailable" }));
+    if (aborted) return;
+    log.error("Upstream error", { ...logFields, error: err.message });
+    if (settled) {
+      endWithStreamError(
+        res,
+        streamingToClient,
+        dialect,
+        "Upstream connection closed unexpectedly"
+      );
+      return;
+    }
+    fail({ kind: "network", message: err.message });
   });
 
-  upstream.on("timeout", () => {
-    upstream.destroy();
-    res.writeHead(504, { "Content-Type": "application/json" });
-    res.end(JSON.stringify({ error: "Gateway timeout" }));
-  });
+  upstream.on("timeout", () => onTimeout("idle", timeouts.idle ?? 0));
 
   upstream.write(payload);
   upstream.end();
 }
 
+function prepareRequest(
+  provider: Provider,
+  model: string,
+  body: Record<string, unknown>,
+  dialect: Dialect,
+  endpoint: Endpoint
+): Omit<UpstreamRequest, "timeouts" | "providerKey"> {
+  // Embeddings only exist in OpenAI's format and are sent as they are
+  if (endpoint === "embeddings") {
+    return {
+      provider,
+      path: endpointPath(
+        provider,
+        providerFormat(provider),
+        "embeddings",
+        model
+      ),
+      body: { ...body, model },
+      format: "openai",
+      dialect,
+    };
+  }
+
+  const format = providerFormat(provider);
+  const path = endpointPath(provider, format, "chat", model);
+
+  // Ollama's native API is reached through OpenAI's shape
+  if (format === "ollama") {
+    const openAIBody =
+      dialect === "anthropic"
+        ? toOpenAIRequest(body as AnthropicRequest, model)
+        : body;
+    return {
+      provider,
+      path,
+      format,
+      dialect,
+      body: toOllamaRequest(openAIBody, model),
+      toOpenAI: ollamaToOpenAI({
+        model,
+        includeUsage: Boolean(
+          (openAIBody.stream_options as { include_usage?: boolean } | undefined)
+            ?.include_usage
+        ),
+      }),
+      ...(dialect === "anthropic" && {
+        fromOpenAI: openAIToAnthropic({ model }),
+      }),
+    };
+  }
+
+  // Same dialect on both ends: forward the body untouched
+  if (format === dialect) {
+    const streamOptions = body.stream_options as
+      | { include_usage?: boolean }
+      | undefined;
+    if (format === "openai" && body.stream && !streamOptions?.include_usage) {
+      // Ask for the usage chunk so streamed requests can be accounted for,
+      // and hide it again from the client that didn't ask for it
+      return {
+        provider,
+        path,
+        body: {
+          ...body,
+          model,
+          stream_options: { ...streamOptions, include_usage: true },
+        },
+        format,
+        dialect,
+        fromOpenAI: stripStreamUsage(),
+      };
+    }
+    return {
+      provider,
+      path,
+      body: { ...body, model },
+      format,
+      dialect,
+    };
+  }
+
+  if (format === "anthropic") {
+    // Convert OpenAI format to Anthropic
+    return {
+      provider,
+      path,
+      format,
+      dialect,
+      body: toAnthropicRequest(body as OpenAIChatRequest, model),
+      toOpenAI: anthropicToOpenAI({
+        model,
+        includeUsage: Boolean(
+          (body.stream_options as { include_usage?: boolean } | undefined)
+            ?.include_usage
+        ),
+      }),
+    };
+  }
+
+  // Anthropic Messages client against an OpenAI-format provider
+  return {
+    provider,
+    path,
+    format,
+    dialect,
+    body: toOpenAIRequest(body as AnthropicRequest, model),
+    fromOpenAI: openAIToAnthropic({ model }),
+  };
+}
+
+// Upstream API a request goes to
+export type Endpoint = "chat" | "embeddings";
+
+export interface ProxyOptions {
+  dialect?: Dialect; // Client's API shape, by endpoint (default "openai")
+  endpoint?: Endpoint; // Default "chat"
+  timeouts?: Timeouts; // Per-request overrides, e.g. from request headers
+  context?: RequestContext; // Filled in with the attempts and served target
+  onUsage?: (usage: TokenUsage) => void; // Called with the served tokens
+  // Applied last to OpenAI chat answers, for endpoints served through chat
+  toClient?: ResponseTranslator;
+  // Called with a successful answer, streamed or not, as an OpenAI completion
+  onCompletion?: (
+    completion: unknown,
+    served: { provider: string; model: string }
+  ) => void;
+}
+
 export function proxyWithFallback(
   alias: Alias,
   body: Record<string, unknown>,
   providers: Map<string, Provider>,
-  res: http.ServerResponse
+  res: ClientResponse,
+  options: ProxyOptions = {}
 ): void {
+  const dialect = options.dialect ?? "openai";
+  const endpoint = options.endpoint ?? "chat";
+  const context = options.context;
+  // Picked by the alias's strategy; the rest is the fallback chain
+  const targets = orderTargets(alias);
+  const logFields = { request_id: context?.id, alias: alias.name };
   const errors: string[] = [];
+  let lastFailure: UpstreamFailure | undefined;
+  let lastProvider: string | undefined;
+  let circuitOpen = false; // A target was skipped for an open circuit
 
-  function tryNext(targetIndex: number): void {
-    if (targetIndex >= alias.targets.length) {
-      // All failed
-      res.writeHead(502, { "Content-Type": "application/json" });
+  function sendAllFailed(): void {
+    if (lastFailure?.kind === "timeout") {
+      res.writeHead(504, { "Content-Type": "application/json" });
       res.end(
         JSON.stringify({
-          error: "All providers failed",
+          error: lastFailure.message,
+          code: "upstream_timeout",
+          provider: lastProvider,
+          phase: lastFailure.timeout?.phase,
+          timeout_ms: lastFailure.timeout?.ms,
           details: errors,
         })
       );
       return;
     }
+    if (!lastFailure && circuitOpen) {
+      // Nothing was sent upstream: every target is known to be failing
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          error: "All providers are unavailable (circuit open)",
+          code: "circuit_open",
+          details: errors,
+        })
+      );
+      return;
+    }
+    res.writeHead(502, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        error: "All providers failed",
+        details: errors,
+      })
+    );
+  }
+
+  // Whether a configured target remains after the given index
+  function hasNextTarget(targetIndex: number): boolean {
+    return targets
+      .slice(targetIndex + 1)
+      .some((target) => providers.has(target.provider));
+  }
+
+  function tryNext(targetIndex: number): void {
+    if (res.destroyed) return; // Client went away
+
+    if (targetIndex >= targets.length) {
+      // All failed
+      sendAllFailed();
+      return;
+    }
 
-    const target = alias.targets[targetIndex];
+    const target = targets[targetIndex];
     const provider = providers.get(target.provider);
 
     if (!provider) {
@@ -229,34 +995,225 @@ export function proxyWithFallback(
     // Skip model availability check - assume model exists if alias is configured
     // The provider will return an error if the model doesn't exist
 
-    // Determine format and path
-    // If discovery failed (no format detected), assume OpenAI format as default
-    let path: string;
-    let format: "openai" | "anthropic";
-    let requestBody: Record<string, unknown>;
-
-    if (provider.anthropic) {
-      path = "/v1/messages";
-      format = "anthropic";
-      // Convert OpenAI format to Anthropic
-      requestBody = {
+    const startedAt = Date.now();
+    const recordAttempt = (
+      outcome: "served" | "skipped" | FailureKind,
+      status?: number,
+      error?: string
+    ): void => {
+      context?.attempts.push({
+        provider: provider.name,
         model: target.model,
-        messages: body.messages,
-        max_tokens: (body.max_tokens as number) || 4096,
-        stream: body.stream,
-        temperature: body.temperature,
+        outcome,
+        ...(status !== undefined && { status }),
+        ...(error !== undefined && { error }),
+        latencyMs: Date.now() - startedAt,
+      });
+    };
+
+    // A provider found to speak only Anthropic's format has no embeddings
+    if (endpoint === "embeddings" && !supportsEmbeddings(provider)) {
+      const message = "embeddings not supported";
+      recordAttempt("skipped", undefined, message);
+      errors.push(`${provider.name}: ${message}`);
+      tryNext(targetIndex + 1);
+      return;
+    }
+
+    // Determine format, path and response translation for this provider
+    let prepared: Omit<UpstreamRequest, "providerKey">;
+    try {
+      prepared = {
+        ...prepareRequest(provider, target.model, body, dialect, endpoint),
+        toClient: options.toClient,
+        requestId: context?.id,
+        // Most specific wins: request headers, then alias, then provider
+        timeouts: {
+          ...provider.timeouts,
+          ...alias.timeouts,
+          ...options.timeouts,
+        },
+      };
+    } catch (err) {
+      // The request itself can't be expressed for this provider; trying
+      // other targets would hide the problem behind provider differences.
+      // This may run from an upstream event handler after a failed
+      // attempt, so nothing is thrown from here.
+      res.writeHead(err instanceof InvalidRequestError ? 400 : 500, {
+        "Content-Type": "application/json",
+      });
+      if (err instanceof InvalidRequestError) {
+        res.end(
+          JSON.stringify({
+            error: err.message,
+            code: err.code,
+            param: err.param,
+          })
+        );
+        return;
+      }
+      log.error("Failed to prepare request", {
+        ...logFields,
+        provider: provider.name,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      res.end(
+        JSON.stringify({
+          error: "Internal server error",
+          code: "internal_error",
+        })
+      );
+      return;
+    }
+
+    // A provider with an open circuit is skipped without a request; when it
+    // was the last target, the client gets the failures seen so far. A
+    // half-open probe slot taken here is released by the skips below.
+    if (!allowRequest(provider)) {
+      const message = "circuit open";
+      log.info("Skipping provider", {
+        ...logFields,
+        provider: provider.name,
+        reason: message,
+      });
+      recordAttempt("skipped", undefined, message);
+      errors.push(`${provider.name}: ${message}`);
+      circuitOpen = true;
+      tryNext(targetIndex + 1);
+      return;
+    }
+
+    const providerKey = selectKey(provider);
+    const request: UpstreamRequest = { ...prepared, providerKey };
+
+    // With every key benched the provider would answer 429 anyway; when it
+    // is the last option, the soonest-available key is tried regardless
+    if (
+      isBenched(providerKey) &&
+      alias.fallbackOn.includes("rate_limit") &&
+      hasNextTarget(targetIndex)
+    ) {
+      const message = "all keys benched";
+      releaseProbe(provider);
+      log.info("Skipping provider", {
+        ...logFields,
+        provider: provider.name,
+        reason: message,
+      });
+      recordAttempt("skipped", undefined, message);
+      errors.push(`${provider.name}: ${message}`);
+      tryNext(targetIndex + 1);
+      return;
+    }
+
+    // A provider over its gateway rate limit is skipped like one that
+    // answered 429, without sending it a request
+    const scope: LimitedScope = {
+      type: "provider",
+      name: provider.name,
+      limit: provider.rateLimit,
+    };
+    if (scope.limit) {
+      const [limited] = acquire([scope]);
+      if (limited.exceeded) {
+        const message = `gateway rate limit reached (${limited.exceeded} per minute)`;
+        releaseProbe(provider);
+        log.info("Skipping provider", {
+          ...logFields,
+          provider: provider.name,
+          reason: message,
+        });
+        recordAttempt("skipped", undefined, message);
+        errors.push(`${provider.name}: ${message}`);
+        if (
+          alias.fallbackOn.includes("rate_limit") &&
+          hasNextTarget(targetIndex)
+        ) {
+          tryNext(targetIndex + 1);
+        } else {
+          sendRateLimited(res, limited, dialect);
+        }
+        return;
+      }
+    }
+    request.onCommit = (status) => {
+      // Rate-limit and auth errors say nothing about the provider's health
+      if (status >= 500) {
+        recordFailure(provider, "5xx", `HTTP ${status}`);
+      } else if (status < 400) {
+        recordSuccess(provider);
+      }
+      recordAttempt("served", status);
+      if (context) {
+        context.served = { provider: provider.name, model: target.model };
+      }
+    };
+    request.onFirstByte = () => {
+      recordLatency(target, Date.now() - startedAt);
+      if (context) context.firstByteAt = Date.now();
+    };
+    if (options.onCompletion) {
+      const onCompletion = options.onCompletion;
+      request.onCompletion = (completion) =>
+        onCompletion(completion, {
+          provider: provider.name,
+          model: target.model,
+        });
+    }
+    if (scope.limit || context || options.onUsage) {
+      request.onUsage = (usage) => {
+        consumeTokens([scope], usage.promptTokens + usage.completionTokens);
+        if (context) context.usage = usage;
+        options.onUsage?.(usage);
       };
-    } else {
-      // Default to OpenAI format (works for OpenAI, Nebius, DeepInfra, etc.)
-      path = "/v1/chat/completions";
-      format = "openai";
-      requestBody = { ...body, model: target.model };
     }
 
-    // For simplicity, we don't do complex fallback detection here
-    // In a production system, you'd wrap this and detect 5xx/timeout errors
-    console.log(`[${alias.name}] Trying ${provider.name}...`);
-    proxyRequest(provider, path, requestBody, format, res);
+    log.debug("Trying provider", {
+      ...logFields,
+      provider: provider.name,
+      model: target.model,
+      key: context?.key?.name,
+      provider_key: maskKey(providerKey.key),
+    });
+    // Open until the attempt fails or the client response is closed
+    const release = trackInFlight(provider.name);
+    res.once("close", release);
+    proxyRequest(
+      request,
+      res,
+      // HTTP failures are only retried when there is somewhere left to go,
+      // otherwise the client gets the upstream error verbatim. Socket errors
+      // and timeouts never produce a response, so they always come back here.
+      // A 429 or 401 is retried on the same provider while it has other keys.
+      (failure) =>
+        (isKeyFailure(failure.status) && canRotateKey(provider)) ||
+        (alias.fallbackOn.includes(failure.kind) && hasNextTarget(targetIndex)),
+      (failure) => {
+        res.off("close", release);
+        release();
+        log.warn("Provider failed", {
+          ...logFields,
+          provider: provider.name,
+          kind: failure.kind,
+          status: failure.status,
+          error: failure.message,
+        });
+        recordAttempt(failure.kind, failure.status, failure.message);
+        recordFailure(provider, failure.kind, failure.message);
+        errors.push(`${provider.name}: ${failure.message}`);
+        lastFailure = failure;
+        lastProvider = provider.name;
+        if (isKeyFailure(failure.status) && canRotateKey(provider)) {
+          tryNext(targetIndex); // Same target, next key
+          return;
+        }
+        if (!alias.fallbackOn.includes(failure.kind)) {
+          sendAllFailed();
+          return;
+        }
+        tryNext(targetIndex + 1);
+      }
+    );
   }
 
   tryNext(0);
@@ -0,0 +1,174 @@
+import type { ClientResponse, Dialect, RateLimit } from "./types.js";
+
+// Token buckets for requests and tokens per minute. Buckets refill
+// continuously and are full again after a minute without traffic.
+
+const WINDOW_MS = 60000;
+
+type LimitKind = "requests" | "tokens";
+
+const LIMIT_KINDS: LimitKind[] = ["requests", "tokens"];
+
+interface Bucket {
+  level: number; // May go negative when a response overdraws the tokens
+  updated: number;
+}
+
+// By `${type}:${name}:${kind}`, so levels survive config reloads
+const buckets = new Map<string, Bucket>();
+
+export interface LimitedScope {
+  type: "key" | "alias" | "provider";
+  name: string;
+  limit?: RateLimit;
+}
+
+export interface BucketState {
+  limit: number;
+  remaining: number;
+  resetMs: number; // Until the bucket is full again
+}
+
+export interface RateLimitResult {
+  scope: LimitedScope;
+  requests?: BucketState;
+  tokens?: BucketState;
+  exceeded?: LimitKind;
+  retryAfterMs: number;
+}
+
+function capacity(limit: RateLimit | undefined, kind: LimitKind) {
+  return kind === "requests"
+    ? limit?.requestsPerMinute
+    : limit?.tokensPerMinute;
+}
+
+function refill(id: string, size: number, now: number): Bucket {
+  let bucket = buckets.get(id);
+  if (!bucket) {
+    bucket = { level: size, updated: now };
+    buckets.set(id, bucket);
+  } else {
+    const refilled = ((now - bucket.updated) * size) / WINDOW_MS;
+    bucket.level = Math.min(size, bucket.level + refilled);
+    bucket.updated = now;
+  }
+  return bucket;
+}
+
+function bucketState(bucket: Bucket, size: number): BucketState {
+  return {
+    limit: size,
+    remaining: Math.max(0, Math.floor(bucket.level)),
+    resetMs: Math.ceil(((size - bucket.level) * WINDOW_MS) / size),
+  };
+}
+
+function inspect(scope: LimitedScope, now: number): RateLimitResult {
+  const result: RateLimitResult = { scope, retryAfterMs: 0 };
+  for (const kind of LIMIT_KINDS) {
+    const size = capacity(scope.limit, kind);
+    if (!size) continue;
+    const bucket = refill(`${scope.type}:${scope.name}:${kind}`, size, now);
+    result[kind] = bucketState(bucket, size);
+    // Both kinds need one whole unit left; the token cost of a request is
+    // only known from its response, so it is charged afterwards.
+    if (bucket.level < 1 && !result.exceeded) {
+      result.exceeded = kind;
+      result.retryAfterMs = Math.ceil(((1 - bucket.level) * WINDOW_MS) / size);
+    }
+  }
+  return result;
+}
+
+/**
+ * Takes one request from every scope, or nothing if any scope is exhausted.
+ * Check `exceeded` on the results to see whether the request may proceed.
+ */
+export function acquire(
+  scopes: LimitedScope[],
+  now = Date.now()
+): RateLimitResult[] {
+  const results = scopes.map((scope) => inspect(scope, now));
+  if (results.some((result) => result.exceeded)) return results;
+
+  for (const result of results) {
+    const size = capacity(result.scope.limit, "requests");
+    if (!size) continue;
+    const { type, name } = result.scope;
+    const bucket = refill(`${type}:${name}:requests`, size, now);
+    bucket.level -= 1;
+    result.requests = bucketState(bucket, size);
+  }
+  return results;
+}
+
+/** Charges the tokens of a served response to every scope */
+export function consumeTokens(
+  scopes: LimitedScope[],
+  tokens: number,
+  now = Date.now()
+): void {
+  for (const scope of scopes) {
+    const size = capacity(scope.limit, "tokens");
+    if (!size) continue;
+    refill(`${scope.type}:${scope.name}:tokens`, size, now).level -= tokens;
+  }
+}
+
+// OpenAI's reset format: "20ms", "1s", "6m0s"
+function formatReset(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m${seconds % 60}s` : `${seconds}s`;
+}
+
+/** OpenAI-style `x-ratelimit-*` headers for one scope */
+export function rateLimitHeaders(
+  result: RateLimitResult
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const kind of LIMIT_KINDS) {
+    const state = result[kind];
+    if (!state) continue;
+    headers[`x-ratelimit-limit-${kind}`] = String(state.limit);
+    headers[`x-ratelimit-remaining-${kind}`] = String(state.remaining);
+    headers[`x-ratelimit-reset-${kind}`] = formatReset(state.resetMs);
+  }
+  return headers;
+}
+
+/** Sends a 429 in the error shape of the client's API */
+export function sendRateLimited(
+  res: ClientResponse,
+  result: RateLimitResult,
+  dialect: Dialect
+): void {
+  const kind = result.exceeded ?? "requests";
+  const retryAfter = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+  const { type, name } = result.scope;
+  const message =
+    `Rate limit reached for ${type} "${name}" on ${kind} per minute ` +
+    `(limit ${result[kind]?.limit}). Please try again in ${retryAfter}s.`;
+
+  res.writeHead(429, {
+    "Content-Type": "application/json",
+    "Retry-After": String(retryAfter),
+    ...rateLimitHeaders(result),
+  });
+  res.end(
+    JSON.stringify(
+      dialect === "anthropic"
+        ? { type: "error", error: { type: "rate_limit_error", message } }
+        : {
+            error: {
+              message,
+              type: kind,
+              param: null,
+              code: "rate_limit_exceeded",
+            },
+          }
+    )
+  );
+}
@@ -0,0 +1,217 @@
+import { existsSync, readFileSync, watch, type FSWatcher } from "node:fs";
+import { basename, dirname, resolve } from "node:path";
+import { parse as parseDotenv } from "dotenv";
+import { loadEnv } from "./env.js";
+import { discoverProviders } from "./discovery.js";
+import { CONFIG_FILE_NAMES, findConfigFile } from "./config.js";
+import { configureLogger, log } from "./logger.js";
+import type { EnvConfig, Provider } from "./types.js";
+
+// Mutable holder for the live config. Request handlers read `env` once per
+// request, so in-flight requests keep the config they started with.
+export interface GatewayState {
+  env: EnvConfig;
+}
+
+export interface ReloadResult {
+  providers: string[];
+  aliases: string[];
+  rediscovered: string[];
+}
+
+export interface Reloader {
+  reload(reason: string): Promise<ReloadResult>;
+  watch(): void;
+  close(): void;
+}
+
+const RELOAD_DEBOUNCE_MS = 200;
+
+// Keys that came from the .env file (rather than the real environment), so a
+// reload can update or remove them without touching real variables.
+const dotenvKeys = new Set<string>();
+let dotenvPath = resolve(process.cwd(), ".env");
+
+/**
+ * Loads a .env file into process.env without overriding variables from the
+ * real environment. Calling it again applies edits and removals.
+ */
+export function loadDotenv(path = dotenvPath): void {
+  dotenvPath = path;
+  const parsed = existsSync(path) ? parseDotenv(readFileSync(path)) : {};
+
+  for (const key of dotenvKeys) {
+    if (!(key in parsed)) {
+      delete process.env[key];
+      dotenvKeys.delete(key);
+    }
+  }
+
+  for (const [key, value] of Object.entries(parsed)) {
+    if (key in process.env && !dotenvKeys.has(key)) continue;
+    process.env[key] = value;
+    dotenvKeys.add(key);
+  }
+}
+
+function sameProvider(a: Provider, b: Provider): boolean {
+  return (
+    a.url === b.url &&
+    a.type === b.type &&
+    a.basePath === b.basePath &&
+    a.authScheme === b.authScheme &&
+    a.apiVersion === b.apiVersion &&
+    JSON.stringify(a.keys.map((k) => k.key)) ===
+      JSON.stringify(b.keys.map((k) => k.key)) &&
+    JSON.stringify(a.headers) === JSON.stringify(b.headers)
+  );
+}
+
+/**
+ * Re-reads .env and the config file and builds a new EnvConfig. Discovery
+ * results, circuit and key pool state are carried over for providers whose
+ * connection settings didn't change; only new or changed providers are
+ * rediscovered.
+ */
+export async function reloadConfig(
+  previous: EnvConfig
+): Promise<{ env: EnvConfig; rediscovered: string[] }> {
+  loadDotenv();
+  const env = loadEnv();
+
+  const changed = new Map<string, Provider>();
+  for (const [name, provider] of env.providers) {
+    const old = previous.providers.get(name);
+    if (old && sameProvider(old, provider)) {
+      provider.openai = old.openai;
+      provider.anthropic = old.anthropic;
+      provider.ollama = old.ollama;
+      provider.models = old.models;
+      provider.circuit = old.circuit;
+      provider.keys = old.keys;
+      provider.discovery = old.discovery;
+    } else {
+      changed.set(name, provider);
+    }
+  }
+
+  await discoverProviders(changed, env.discovery);
+  return { env, rediscovered: Array.from(changed.keys()) };
+}
+
+/**
+ * Serialises reloads for a gateway and swaps the new config in atomically.
+ * A failed reload leaves the previous config in place.
+ */
+export function createReloader(state: GatewayState): Reloader {
+  let running: Promise<ReloadResult> | null = null;
+  let queued = false;
+  let debounce: NodeJS.Timeout | null = null;
+  const watchers: FSWatcher[] = [];
+
+  async function run(reason: string): Promise<ReloadResult> {
+    log.info("Reloading configuration", { reason });
+    try {
+      const { env, rediscovered } = await reloadConfig(state.env);
+      if (env.port !== state.env.port) {
+        log.warn("Port change requires a restart", {
+          port: env.port,
+          listening: state.env.port,
+        });
+      }
+      state.env = env;
+      configureLogger(env);
+      const result = {
+        providers: Array.from(env.providers.keys()),
+        aliases: Array.from(env.aliases.keys()),
+        rediscovered,
+      };
+      log.info("Configuration reloaded", { aliases: result.aliases });
+      return result;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      log.error("Reload failed, keeping previous configuration", {
+        error: message,
+      });
+      throw err;
+    }
+  }
+
+  function reload(reason: string): Promise<ReloadResult> {
+    if (running) {
+      // Coalesce triggers that arrive mid-reload into one follow-up run
+      queued = true;
+      return running;
+    }
+    running = run(reason).finally(() => {
+      running = null;
+      if (queued) {
+        queued = false;
+        reload(`${reason}, queued`).catch(() => {});
+      }
+    });
+    return running;
+  }
+
+  function onSighup() {
+    reload("SIGHUP").catch(() => {});
+  }
+
+  return {
+    reload,
+
+    watch() {
+      process.on("SIGHUP", onSighup);
+
+      // Watch directories rather than files: editors often save by
+      // replacing the file, which silently ends a file-level watch.
+      const files = [dotenvPath];
+      try {
+        const configPath = findConfigFile();
+        // Without a config file, pick one up as soon as it's created
+        files.push(
+          ...(configPath
+            ? [configPath]
+            : CONFIG_FILE_NAMES.map((name) => resolve(process.cwd(), name)))
+        );
+      } catch {
+        // Missing PASSY_CONFIG file is reported by the reload itself
+      }
+
+      const byDir = new Map<string, Set<string>>();
+      for (const file of files) {
+        const names = byDir.get(dirname(file)) ?? new Set<string>();
+        names.add(basename(file));
+        byDir.set(dirname(file), names);
+      }
+
+      for (const [dir, names] of byDir) {
+        try {
+          const watcher = watch(dir, (_event, filename) => {
+            if (!filename || !names.has(filename.toString())) return;
+            if (debounce) clearTimeout(debounce);
+            debounce = setTimeout(() => {
+              debounce = null;
+              reload(`${filename} changed`).catch(() => {});
+            }, RELOAD_DEBOUNCE_MS);
+          });
+          watcher.unref();
+          watchers.push(watcher);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          log.error("Cannot watch for config changes", {
+            dir,
+            error: message,
+          });
+        }
+      }
+    },
+
+    close() {
+      process.off("SIGHUP", onSighup);
+      if (debounce) clearTimeout(debounce);
+      for (const watcher of watchers) watcher.close();
+      watchers.length = 0;
+    },
+  };
+}
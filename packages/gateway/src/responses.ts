@@ -0,0 +1,565 @@
+import type { ResponseTranslator } from "./types.js";
+import { InvalidRequestError } from "./errors.js";
+import { createSSETransform, formatSSE } from "./sse.js";
+
+// OpenAI Responses API (/v1/responses), without its server-side state:
+// requests become chat completions (which Anthropic providers get
+// translated as usual) and chat answers are turned back into `response`
+// objects and Responses stream events. Nothing is stored, so
+// `previous_response_id` and conversations are refused.
+
+type ContentPart = Record<string, unknown> & { type?: string };
+
+interface InputItem {
+  type?: string;
+  role?: string;
+  content?: string | ContentPart[];
+  call_id?: string;
+  name?: string;
+  arguments?: string;
+  output?: unknown;
+}
+
+interface ResponsesTool {
+  type?: string;
+  name?: string;
+  description?: string;
+  parameters?: unknown;
+  strict?: boolean;
+}
+
+export interface ResponsesRequest {
+  model?: string;
+  input?: string | InputItem[];
+  instructions?: string | null;
+  max_output_tokens?: number | null;
+  temperature?: number | null;
+  top_p?: number | null;
+  tools?: ResponsesTool[];
+  tool_choice?: unknown;
+  parallel_tool_calls?: boolean;
+  text?: {
+    format?: {
+      type?: string;
+      name?: string;
+      description?: string;
+      schema?: unknown;
+      strict?: boolean;
+    };
+  };
+  reasoning?: { effort?: string } | null;
+  metadata?: Record<string, string>;
+  stream?: boolean;
+  [key: string]: unknown;
+}
+
+interface ChatMessage {
+  role: string;
+  content: string | ContentPart[] | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+interface ChatToolCall {
+  index?: number;
+  id?: string;
+  type?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+// A streamed call while its arguments arrive
+interface OpenToolCall extends ChatToolCall {
+  id: string;
+  function: { name: string; arguments: string };
+}
+
+interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+interface ChatCompletion {
+  id?: string;
+  created?: number;
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: ChatToolCall[] };
+    delta?: { content?: string | null; tool_calls?: ChatToolCall[] };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatUsage | null;
+  error?: { message?: string; type?: string; code?: string | null };
+}
+
+// Parameters that need state kept between requests
+const STATEFUL_PARAMS = ["previous_response_id", "conversation", "prompt"];
+
+function unsupported(param: string, reason?: string): InvalidRequestError {
+  return new InvalidRequestError(
+    `Parameter '${param}' is not supported by /v1/responses${
+      reason ? `: ${reason}` : ""
+    }`,
+    param,
+    "unsupported_parameter"
+  );
+}
+
+function convertPart(part: ContentPart, path: string): ContentPart {
+  switch (part.type) {
+    case "input_text":
+    case "output_text":
+      return { type: "text", text: part.text };
+    case "input_image":
+      if (typeof part.image_url !== "string") {
+        throw unsupported(path, "images must be given by image_url");
+      }
+      return {
+        type: "image_url",
+        image_url: {
+          url: part.image_url,
+          ...(part.detail !== undefined && { detail: part.detail }),
+        },
+      };
+    default:
+      throw unsupported(path, `content type '${part.type}'`);
+  }
+}
+
+function textOf(content: InputItem["content"], path: string): string {
+  if (typeof content === "string") return content;
+  return (content ?? [])
+    .map((part, i) => convertPart(part, `${path}[${i}]`))
+    .filter((part) => part.type === "text")
+    .map((part) => part.text as string)
+    .join("\n");
+}
+
+function convertInput(input: ResponsesRequest["input"]): ChatMessage[] {
+  if (typeof input === "string") return [{ role: "user", content: input }];
+  if (!Array.isArray(input)) {
+    throw new InvalidRequestError(
+      "'input' must be a string or a list of items",
+      "input"
+    );
+  }
+
+  const messages: ChatMessage[] = [];
+  input.forEach((item, i) => {
+    const path = `input[${i}]`;
+    const type = item.type ?? "message";
+    if (type === "message") {
+      const role = item.role === "developer" ? "system" : item.role;
+      if (role === "user") {
+        const content =
+          typeof item.content === "string"
+            ? item.content
+            : (item.content ?? []).map((part, j) =>
+                convertPart(part, `${path}.content[${j}]`)
+              );
+        messages.push({ role, content });
+      } else if (role === "assistant" || role === "system") {
+        messages.push({ role, content: textOf(item.content, path) });
+      } else {
+        throw unsupported(`${path}.role`, `role '${item.role}'`);
+      }
+    } else if (type === "function_call") {
+      // Calls join the assistant turn they belong to
+      const call: ChatToolCall = {
+        id: item.call_id,
+        type: "function",
+        function: { name: item.name, arguments: item.arguments ?? "{}" },
+      };
+      const previous = messages[messages.length - 1];
+      if (previous?.role === "assistant") {
+        previous.tool_calls = [...(previous.tool_calls ?? []), call];
+      } else {
+        messages.push({ role: "assistant", content: null, tool_calls: [call] });
+      }
+    } else if (type === "function_call_output") {
+      messages.push({
+        role: "tool",
+        tool_call_id: item.call_id,
+        content:
+          typeof item.output === "string"
+            ? item.output
+            : JSON.stringify(item.output),
+      });
+    } else if (type !== "reasoning") {
+      // Earlier reasoning is not replayed; other items need OpenAI's tools
+      throw unsupported(`${path}.type`, `item type '${type}'`);
+    }
+  });
+  return messages;
+}
+
+function convertTools(tools: ResponsesTool[]): unknown[] {
+  return tools.map((tool, i) => {
+    if (tool.type !== "function") {
+      throw unsupported(`tools[${i}]`, `'${tool.type}' tools`);
+    }
+    return {
+      type: "function",
+      function: {
+        name: tool.name,
+        ...(tool.description !== undefined && {
+          description: tool.description,
+        }),
+        ...(tool.parameters !== undefined && { parameters: tool.parameters }),
+        ...(tool.strict !== undefined && { strict: tool.strict }),
+      },
+    };
+  });
+}
+
+function convertToolChoice(choice: unknown): unknown {
+  if (choice === undefined || typeof choice === "string") return choice;
+  const object = choice as { type?: string; name?: string };
+  if (object.type === "function") {
+    return { type: "function", function: { name: object.name } };
+  }
+  throw unsupported("tool_choice", `'${object.type}' choices`);
+}
+
+/**
+ * Builds a chat completion request from a Responses API request. Throws
+ * InvalidRequestError for stateful features and built-in tools.
+ */
+export function responsesToChat(
+  body: ResponsesRequest
+): Record<string, unknown> {
+  for (const param of STATEFUL_PARAMS) {
+    if (body[param] !== undefined && body[param] !== null) {
+      throw unsupported(param, "responses are not stored");
+    }
+  }
+  if (body.background) throw unsupported("background");
+
+  const messages = convertInput(body.input);
+  if (body.instructions) {
+    messages.unshift({ role: "system", content: body.instructions });
+  }
+
+  const request: Record<string, unknown> = { model: body.model, messages };
+  if (body.max_output_tokens != null) {
+    request.max_tokens = body.max_output_tokens;
+  }
+  for (const param of ["temperature", "top_p", "user"] as const) {
+    if (body[param] != null) request[param] = body[param];
+  }
+  if (body.tools && body.tools.length > 0) {
+    request.tools = convertTools(body.tools);
+    const toolChoice = convertToolChoice(body.tool_choice);
+    if (toolChoice !== undefined) request.tool_choice = toolChoice;
+    if (body.parallel_tool_calls !== undefined) {
+      request.parallel_tool_calls = body.parallel_tool_calls;
+    }
+  }
+
+  const format = body.text?.format;
+  if (format?.type === "json_object") {
+    request.response_format = { type: "json_object" };
+  } else if (format?.type === "json_schema") {
+    request.response_format = {
+      type: "json_schema",
+      json_schema: {
+        name: format.name,
+        schema: format.schema,
+        ...(format.description !== undefined && {
+          description: format.description,
+        }),
+        ...(format.strict !== undefined && { strict: format.strict }),
+      },
+    };
+  }
+  if (body.reasoning?.effort) request.reasoning_effort = body.reasoning.effort;
+
+  // The final response event reports usage
+  if (body.stream) {
+    request.stream = true;
+    request.stream_options = { include_usage: true };
+  }
+  return request;
+}
+
+/** Request settings a `response` object repeats back */
+export function responseSettings(
+  body: ResponsesRequest
+): Record<string, unknown> {
+  return {
+    instructions: body.instructions ?? null,
+    max_output_tokens: body.max_output_tokens ?? null,
+    temperature: body.temperature ?? null,
+    top_p: body.top_p ?? null,
+    tools: body.tools ?? [],
+    tool_choice: body.tool_choice ?? "auto",
+    parallel_tool_calls: body.parallel_tool_calls ?? true,
+    text: body.text ?? { format: { type: "text" } },
+    metadata: body.metadata ?? {},
+    previous_response_id: null,
+    store: false,
+  };
+}
+
+function mapUsage(usage: ChatUsage | null | undefined) {
+  if (!usage) return null;
+  const input = usage.prompt_tokens ?? 0;
+  const output = usage.completion_tokens ?? 0;
+  return {
+    input_tokens: input,
+    input_tokens_details: {
+      cached_tokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+    },
+    output_tokens: output,
+    output_tokens_details: {
+      reasoning_tokens: usage.completion_tokens_details?.reasoning_tokens ?? 0,
+    },
+    total_tokens: usage.total_tokens ?? input + output,
+  };
+}
+
+function baseId(id: string | undefined): string {
+  return id?.replace(/^chatcmpl-/, "") ?? String(Date.now());
+}
+
+function messageItem(id: string, text: string, status: string) {
+  return {
+    id,
+    type: "message",
+    status,
+    role: "assistant",
+    content:
+      status === "in_progress"
+        ? []
+        : [{ type: "output_text", text, annotations: [] }],
+  };
+}
+
+function functionCallItem(call: ChatToolCall, status: string) {
+  return {
+    id: `fc_${call.id}`,
+    type: "function_call",
+    status,
+    call_id: call.id,
+    name: call.function?.name ?? "",
+    arguments: call.function?.arguments ?? "",
+  };
+}
+
+/**
+ * Translates OpenAI chat completion responses (JSON or SSE) into Responses
+ * API `response` objects and stream events. `settings` come from
+ * `responseSettings`.
+ */
+export function chatToResponses(options: {
+  model: string;
+  settings: Record<string, unknown>;
+}): ResponseTranslator {
+  function response(
+    completion: ChatCompletion,
+    status: string,
+    output: unknown[],
+    usage: ChatUsage | null | undefined
+  ) {
+    return {
+      id: `resp_${baseId(completion.id)}`,
+      object: "response",
+      created_at: completion.created ?? Math.floor(Date.now() / 1000),
+      status,
+      error: null,
+      incomplete_details:
+        status === "incomplete" ? { reason: "max_output_tokens" } : null,
+      model: completion.model ?? options.model,
+      output,
+      ...options.settings,
+      usage: mapUsage(usage),
+    };
+  }
+
+  return {
+    json(body) {
+      const completion = body as ChatCompletion;
+      const choice = completion.choices?.[0];
+      const output: unknown[] = [];
+      if (choice?.message?.content) {
+        const id = `msg_${baseId(completion.id)}`;
+        output.push(messageItem(id, choice.message.content, "completed"));
+      }
+      for (const call of choice?.message?.tool_calls ?? []) {
+        output.push(functionCallItem(call, "completed"));
+      }
+      const status =
+        choice?.finish_reason === "length" ? "incomplete" : "completed";
+      return response(completion, status, output, completion.usage);
+    },
+
+    stream() {
+      let sequence = 0;
+      let first: ChatCompletion | undefined;
+      let finished = false;
+      let finishReason: string | null | undefined;
+      let usage: ChatUsage | null | undefined;
+      // Finished items by output index
+      const output: unknown[] = [];
+      let text: { index: number; id: string; text: string } | null = null;
+      const calls = new Map<number, { index: number; call: OpenToolCall }>();
+
+      function event(type: string, data: Record<string, unknown>): string {
+        return formatSSE({ type, sequence_number: sequence++, ...data }, type);
+      }
+
+      function start(chunk: ChatCompletion): string {
+        if (first) return "";
+        first = chunk;
+        const created = response(chunk, "in_progress", [], null);
+        return (
+          event("response.created", { response: created }) +
+          event("response.in_progress", { response: created })
+        );
+      }
+
+      function closeText(): string {
+        if (!text) return "";
+        const { index, id } = text;
+        const part = { type: "output_text", text: text.text, annotations: [] };
+        const item = messageItem(id, text.text, "completed");
+        output[index] = item;
+        const out =
+          event("response.output_text.done", {
+            item_id: id,
+            output_index: index,
+            content_index: 0,
+            text: text.text,
+          }) +
+          event("response.content_part.done", {
+            item_id: id,
+            output_index: index,
+            content_index: 0,
+            part,
+          }) +
+          event("response.output_item.done", { output_index: index, item });
+        text = null;
+        return out;
+      }
+
+      function closeCalls(): string {
+        let out = "";
+        for (const { index, call } of calls.values()) {
+          const item = functionCallItem(call, "completed");
+          output[index] = item;
+          out +=
+            event("response.function_call_arguments.done", {
+              item_id: item.id,
+              output_index: index,
+              arguments: item.arguments,
+            }) +
+            event("response.output_item.done", { output_index: index, item });
+        }
+        calls.clear();
+        return out;
+      }
+
+      function finish(): string {
+        if (!first || finished) return "";
+        finished = true;
+        const status = finishReason === "length" ? "incomplete" : "completed";
+        const out = closeText() + closeCalls();
+        return (
+          out +
+          event(`response.${status}`, {
+            response: response(first, status, output, usage),
+          })
+        );
+      }
+
+      return createSSETransform(({ data }) => {
+        if (data === "[DONE]") return finish();
+
+        let chunk: ChatCompletion;
+        try {
+          chunk = JSON.parse(data) as ChatCompletion;
+        } catch {
+          return "";
+        }
+
+        if (chunk.error) {
+          finished = true;
+          return event("error", {
+            code: chunk.error.code ?? null,
+            message: chunk.error.message ?? "Upstream error",
+            param: null,
+          });
+        }
+
+        let out = start(chunk);
+        if (chunk.usage) usage = chunk.usage;
+        const choice = chunk.choices?.[0];
+        const delta = choice?.delta;
+
+        if (delta?.content) {
+          if (!text) {
+            text = {
+              index: output.length,
+              id: `msg_${baseId(first?.id)}`,
+              text: "",
+            };
+            output[text.index] = null;
+            out +=
+              event("response.output_item.added", {
+                output_index: text.index,
+                item: messageItem(text.id, "", "in_progress"),
+              }) +
+              event("response.content_part.added", {
+                item_id: text.id,
+                output_index: text.index,
+                content_index: 0,
+                part: { type: "output_text", text: "", annotations: [] },
+              });
+          }
+          text.text += delta.content;
+          out += event("response.output_text.delta", {
+            item_id: text.id,
+            output_index: text.index,
+            content_index: 0,
+            delta: delta.content,
+          });
+        }
+
+        for (const call of delta?.tool_calls ?? []) {
+          const callIndex = call.index ?? 0;
+          let open = calls.get(callIndex);
+          if (!open) {
+            out += closeText();
+            open = {
+              index: output.length,
+              call: {
+                id: call.id ?? `call_${callIndex}`,
+                function: { name: call.function?.name ?? "", arguments: "" },
+              },
+            };
+            output[open.index] = null;
+            calls.set(callIndex, open);
+            out += event("response.output_item.added", {
+              output_index: open.index,
+              item: functionCallItem(open.call, "in_progress"),
+            });
+          }
+          const args = call.function?.arguments;
+          if (args) {
+            open.call.function.arguments += args;
+            out += event("response.function_call_arguments.delta", {
+              item_id: `fc_${open.call.id}`,
+              output_index: open.index,
+              delta: args,
+            });
+          }
+        }
+
+        if (choice?.finish_reason) finishReason = choice.finish_reason;
+        return out;
+      }, finish);
+    },
+  };
+}
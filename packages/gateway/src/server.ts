@@ -1,8 +1,78 @@
 import http from "node:http";
+import { randomUUID } from "node:crypto";
 import { loadEnv } from "./env.js";
-import { discoverProviders } from "./discovery.js";
-import { proxyWithFallback } from "./proxy.js";
-import type { EnvConfig } from "./types.js";
+import {
+  discoverProvider,
+  discoverProviders,
+  discoveryStatus,
+  scheduleDiscovery,
+} from "./discovery.js";
+import {
+  completionToSSE,
+  proxyWithFallback,
+  type ProxyOptions,
+} from "./proxy.js";
+import { InvalidRequestError } from "./errors.js";
+import { configureLogger, log, logsBodies } from "./logger.js";
+import { observeRequest, renderMetrics, trackStream } from "./metrics.js";
+import { circuitStatus } from "./circuit.js";
+import { keyStatus } from "./keypool.js";
+import { reachableModels, resolveModel } from "./passthrough.js";
+import { describeModel } from "./models.js";
+import { proxyEmbeddings } from "./embeddings.js";
+import { chatToCompletions, completionsToChat } from "./completions.js";
+import {
+  chatToResponses,
+  responseSettings,
+  responsesToChat,
+} from "./responses.js";
+import {
+  cacheKey,
+  getCached,
+  isCacheable,
+  putCached,
+  readCachePolicy,
+} from "./cache.js";
+import {
+  canUseAlias,
+  findKey,
+  isExpired,
+  quotaExceeded,
+  recordRequest,
+  recordTokens,
+} from "./keys.js";
+import {
+  acquire,
+  consumeTokens,
+  rateLimitHeaders,
+  sendRateLimited,
+  type LimitedScope,
+} from "./ratelimit.js";
+import {
+  appendUsage,
+  computeCost,
+  summarizeUsage,
+  USAGE_GROUPS,
+  type UsageGroup,
+  type UsageQuery,
+} from "./usage.js";
+import type {
+  Alias,
+  AliasKind,
+  CacheConfig,
+  Dialect,
+  EnvConfig,
+  GatewayKey,
+  RequestContext,
+  ResponseTranslator,
+  Timeouts,
+  UsageConfig,
+} from "./types.js";
+import {
+  createReloader,
+  type GatewayState,
+  type Reloader,
+} from "./reload.js";
 
 const MAX_BODY_SIZE = 10 * 1024 * 1024; // 10MB
 
@@ -35,6 +105,29 @@ function parseBody(req: http.IncomingMessage): Promise<string> {
   });
 }
 
+// Per-request overrides of the upstream time limits, in milliseconds
+const TIMEOUT_HEADERS = {
+  "x-passy-timeout": "total",
+  "x-passy-first-byte-timeout": "firstByte",
+} as const;
+
+function readTimeoutHeaders(req: http.IncomingMessage): Timeouts {
+  const timeouts: Timeouts = {};
+  for (const [header, field] of Object.entries(TIMEOUT_HEADERS)) {
+    const value = req.headers[header];
+    if (value === undefined) continue;
+    if (typeof value !== "string" || !/^\d+$/.test(value.trim())) {
+      throw new InvalidRequestError(
+        `${header} must be a whole number of milliseconds`,
+        header,
+        "invalid_timeout"
+      );
+    }
+    timeouts[field] = Number(value);
+  }
+  return timeouts;
+}
+
 function sendJson(res: http.ServerResponse, data: unknown, status = 200) {
   res.writeHead(status, { "Content-Type": "application/json" });
   res.end(JSON.stringify(data));
@@ -51,13 +144,371 @@ function sendError(
   sendJson(res, error, status);
 }
 
-function createRequestHandler(env: EnvConfig, authKey: string | undefined) {
+// Query of GET /v1/usage: from, to, group_by and one filter per group
+function readUsageQuery(params: URLSearchParams): UsageQuery {
+  const query: UsageQuery = { groupBy: ["day"], filters: {} };
+
+  for (const name of ["from", "to"] as const) {
+    const value = params.get(name);
+    if (value === null) continue;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      throw new InvalidRequestError(`${name} must be a YYYY-MM-DD date`, name);
+    }
+    query[name] = value;
+  }
+
+  const groupBy = params.get("group_by");
+  if (groupBy !== null) {
+    query.groupBy = groupBy
+      .split(",")
+      .filter(Boolean)
+      .map((group) => {
+        if (!(USAGE_GROUPS as readonly string[]).includes(group)) {
+          throw new InvalidRequestError(
+            `group_by must be a list of: ${USAGE_GROUPS.join(", ")}`,
+            "group_by"
+          );
+        }
+        return group as UsageGroup;
+      });
+  }
+
+  for (const name of ["alias", "key", "provider", "model"] as const) {
+    const value = params.get(name);
+    if (value !== null) query.filters[name] = value;
+  }
+  return query;
+}
+
+// Client-supplied request ids are kept if they are reasonably short tokens
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+function readRequestId(req: http.IncomingMessage): string {
+  const id = req.headers["x-request-id"];
+  return typeof id === "string" && REQUEST_ID_PATTERN.test(id)
+    ? id
+    : randomUUID();
+}
+
+// Status reported for a request whose client went away before any response
+// was sent (nginx's "client closed request")
+const CLIENT_CLOSED = 499;
+
+function responseStatus(res: http.ServerResponse): number {
+  return res.headersSent ? res.statusCode : CLIENT_CLOSED;
+}
+
+// One line per request once the response is closed: proxied requests at
+// info level with their attempts and usage, anything else at debug level
+function logRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  path: string,
+  context: RequestContext
+): void {
+  const { served, usage, firstByteAt } = context;
+  log[context.alias ? "info" : "debug"]("Request", {
+    request_id: context.id,
+    method: req.method,
+    path,
+    status: responseStatus(res),
+    latency_ms: Date.now() - context.startedAt,
+    key: context.key?.name,
+    alias: context.alias,
+    stream: context.stream,
+    cache: context.cache,
+    ...(context.alias && {
+      provider: served?.provider ?? null,
+      model: served?.model ?? null,
+      ttfb_ms: firstByteAt ? firstByteAt - context.startedAt : null,
+      prompt_tokens: usage?.promptTokens ?? 0,
+      completion_tokens: usage?.completionTokens ?? 0,
+      attempts: context.attempts.map((attempt) => ({
+        provider: attempt.provider,
+        model: attempt.model,
+        outcome: attempt.outcome,
+        status: attempt.status,
+        error: attempt.error,
+        latency_ms: attempt.latencyMs,
+      })),
+    }),
+    aborted: res.writableFinished ? undefined : true,
+  });
+}
+
+interface Admission {
+  alias: Alias;
+  dialect: Dialect;
+  usage?: UsageConfig; // Where to record the request, if anywhere
+}
+
+// Enforces the calling key's alias allow-list and daily quota and the key
+// and alias rate limits, then counts the request against them. Returns the
+// proxy options that charge the served tokens back, or null after sending
+// the error response if the request may not proceed. Admitted requests are
+// recorded in the usage store once the response is closed.
+function admitRequest(
+  res: http.ServerResponse,
+  context: RequestContext,
+  { alias, dialect, usage: usageConfig }: Admission
+): ProxyOptions | null {
+  const key = context.key;
+  if (key && !canUseAlias(key, alias.name)) {
+    sendError(
+      res,
+      `Key "${key.name}" may not use model ${alias.name}`,
+      403,
+      "model_not_allowed"
+    );
+    return null;
+  }
+  const exceeded = key && quotaExceeded(key);
+  if (exceeded) {
+    sendError(res, exceeded, 429, "quota_exceeded");
+    return null;
+  }
+
+  const scopes: LimitedScope[] = [
+    { type: "alias", name: alias.name, limit: alias.rateLimit },
+  ];
+  if (key) {
+    scopes.unshift({ type: "key", name: key.name, limit: key.rateLimit });
+  }
+  const limited = acquire(scopes.filter((scope) => scope.limit));
+  const denied = limited.find((result) => result.exceeded);
+  if (denied) {
+    sendRateLimited(res, denied, dialect);
+    return null;
+  }
+  // Report the most specific limit (key, then alias) on the response
+  if (limited[0]) {
+    const headers = rateLimitHeaders(limited[0]);
+    for (const [name, value] of Object.entries(headers)) {
+      res.setHeader(name, value);
+    }
+  }
+
+  if (key) recordRequest(key);
+  if (context.stream) trackStream(alias.name, res);
+
+  if (usageConfig) {
+    // Recorded once the client response is done, whatever the outcome
+    res.once("close", () => {
+      const { served, usage: servedUsage, startedAt } = context;
+      appendUsage(usageConfig, {
+        ts: new Date(startedAt).toISOString(),
+        alias: alias.name,
+        key: key?.name ?? null,
+        provider: served?.provider ?? null,
+        model: served?.model ?? null,
+        status: responseStatus(res),
+        stream: Boolean(context.stream),
+        prompt_tokens: servedUsage?.promptTokens ?? 0,
+        completion_tokens: servedUsage?.completionTokens ?? 0,
+        cost:
+          served && servedUsage
+            ? computeCost(
+                usageConfig,
+                served.provider,
+                served.model,
+                servedUsage
+              )
+            : null,
+        latency_ms: Date.now() - startedAt,
+      });
+    });
+  }
+
+  return {
+    dialect,
+    context,
+    onUsage: (usage) => {
+      const tokens = usage.promptTokens + usage.completionTokens;
+      if (key) recordTokens(key, tokens);
+      consumeTokens(scopes, tokens);
+    },
+  };
+}
+
+// Answers the request from the response cache when it holds a fresh answer,
+// as SSE if the client streams, and returns null. Otherwise returns the
+// proxy options extended to store the answer that gets served.
+async function applyCache(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  context: RequestContext,
+  config: CacheConfig,
+  alias: Alias,
+  body: Record<string, unknown>,
+  options: ProxyOptions
+): Promise<ProxyOptions | null> {
+  const policy = readCachePolicy(req);
+  const key = cacheKey(alias, body, context.key?.name ?? null);
+  if (policy.read) {
+    const cached = await getCached(config, key);
+    if (cached) {
+      context.cache = "hit";
+      res.setHeader("x-passy-cache", "hit");
+      if (body.stream) {
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        });
+        const streamOptions = body.stream_options as
+          | { include_usage?: boolean }
+          | undefined;
+        res.end(
+          completionToSSE(
+            cached.completion,
+            alias.name,
+            Boolean(streamOptions?.include_usage)
+          )
+        );
+      } else {
+        sendJson(res, cached.completion);
+      }
+      return null;
+    }
+  }
+
+  context.cache = policy.read ? "miss" : "bypass";
+  res.setHeader("x-passy-cache", context.cache);
+  if (!policy.write) return options;
+  return {
+    ...options,
+    onCompletion: (completion, served) => {
+      putCached(config, key, { ...served, completion }).catch((err) => {
+        log.error("Cannot store cached response", {
+          request_id: context.id,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+    },
+  };
+}
+
+// How a POST endpoint served by aliases handles its requests
+interface AliasRoute {
+  kind?: AliasKind; // Aliases the endpoint serves; default "chat"
+  dialect: Dialect;
+  // Turns the client's body into a chat completion request, with the
+  // translator for the answers. Runs before the request is counted, so
+  // unsupported parameters cost nothing.
+  translate?: (
+    body: Record<string, unknown>,
+    alias: Alias
+  ) => { body: Record<string, unknown>; toClient?: ResponseTranslator };
+  cache?: boolean; // Answer temperature-0 requests from the response cache
+  // Sends the admitted request in place of `proxyWithFallback`
+  proxy?: (
+    alias: Alias,
+    body: Record<string, unknown>,
+    options: ProxyOptions
+  ) => Promise<void>;
+}
+
+// Reads the body, resolves its model to an alias and admits the request,
+// answering any problem with an error response, then proxies it
+async function routeAliasRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  env: EnvConfig,
+  context: RequestContext,
+  route: AliasRoute
+): Promise<void> {
+  const rawBody = await parseBody(req);
+  let body: Record<string, unknown> & { model?: string; stream?: boolean };
+  try {
+    body = JSON.parse(rawBody) as typeof body;
+  } catch {
+    return sendError(res, "Invalid JSON in request body", 400, "invalid_json");
+  }
+
+  const modelName = body.model;
+  if (!modelName) {
+    return sendError(
+      res,
+      "Missing 'model' field in request body",
+      400,
+      "missing_model"
+    );
+  }
+
+  // An alias, or a pass-through `provider/model`
+  const kind = route.kind ?? "chat";
+  const alias = resolveModel(env, modelName, kind);
+  if (!alias) {
+    return sendJson(
+      res,
+      { error: `Unknown model: ${modelName.toLowerCase()}` },
+      404
+    );
+  }
+  if (alias.kind !== kind) {
+    return sendError(
+      res,
+      kind === "chat"
+        ? `Model ${alias.name} is an embeddings model`
+        : `Model ${alias.name} is not an embeddings model`,
+      400,
+      "wrong_model_kind"
+    );
+  }
+  context.alias = alias.name;
+  context.stream = Boolean(body.stream);
+  if (logsBodies()) {
+    log.debug("Request body", { request_id: context.id, body });
+  }
+
+  const { body: upstreamBody, toClient } = route.translate
+    ? route.translate(body, alias)
+    : { body, toClient: undefined };
+  const timeouts = readTimeoutHeaders(req);
+  const options = admitRequest(res, context, {
+    alias,
+    dialect: route.dialect,
+    usage: env.usage,
+  });
+  if (!options) return;
+
+  const proxyOptions =
+    route.cache && env.cache && isCacheable(body)
+      ? await applyCache(req, res, context, env.cache, alias, body, options)
+      : options;
+  if (!proxyOptions) return;
+
+  const sendOptions = { ...proxyOptions, timeouts, toClient };
+  if (route.proxy) return route.proxy(alias, upstreamBody, sendOptions);
+  proxyWithFallback(alias, upstreamBody, env.providers, res, sendOptions);
+}
+
+function createRequestHandler(
+  state: GatewayState,
+  reloader: Reloader
+) {
   return async function handleRequest(
     req: http.IncomingMessage,
     res: http.ServerResponse
   ) {
-    const path = req.url || "/";
+    const url = new URL(req.url || "/", "http://localhost");
+    const path = url.pathname;
     const method = req.method || "GET";
+    // Snapshot the config: a reload mid-request doesn't affect this request
+    const env = state.env;
+    // Auth is required as soon as any gateway key is configured
+    const authRequired = env.keys.size > 0;
+    const token = req.headers["authorization"]?.replace("Bearer ", "");
+    const context: RequestContext = {
+      id: readRequestId(req),
+      startedAt: Date.now(),
+      attempts: [],
+    };
+    res.setHeader("x-request-id", context.id);
+    res.once("close", () => {
+      observeRequest(context, responseStatus(res));
+      logRequest(req, res, path, context);
+    });
 
     try {
       // Health check (no auth required)
@@ -66,118 +517,223 @@ function createRequestHandler(env: EnvConfig, authKey: string | undefined) {
           status: "ok",
           providers: Array.from(env.providers.values()).map((p) => ({
             name: p.name,
+            type: p.type,
             models: p.models.length,
             openai: p.openai,
             anthropic: p.anthropic,
+            ollama: p.ollama,
+            circuit: circuitStatus(p),
+            keys: keyStatus(p),
+            discovery: discoveryStatus(p),
           })),
           aliases: Array.from(env.aliases.keys()),
         });
       }
 
-      // List models (no auth required)
-      if (path === "/v1/models" && method === "GET") {
-        const data = Array.from(env.aliases.values()).map((alias) => ({
-          id: alias.name,
-          object: "model",
-          created: Date.now(),
-          owned_by: alias.targets[0]?.provider || "unknown",
-        }));
-        return sendJson(res, { object: "list", data });
+      // Prometheus scrape endpoint (no auth required, like /health)
+      if (path === "/metrics" && method === "GET") {
+        res.writeHead(200, {
+          "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+        });
+        return res.end(renderMetrics(env));
       }
 
-      // API Key Validation for protected endpoints (only if AUTH_KEY is set)
-      if (authKey) {
-        const authHeader = req.headers["authorization"];
-        const token = authHeader?.replace("Bearer ", "");
-
+      // API Key Validation for protected endpoints (only if keys are configured)
+      let key: GatewayKey | undefined;
+      if (authRequired) {
         if (!token) {
           return sendError(res, "Missing API key. Provide Authorization: Bearer <token> header.", 401, "missing_api_key");
         }
 
-        if (token !== authKey) {
+        key = findKey(env.keys, token);
+        if (!key) {
           return sendError(res, "Invalid API key", 401, "invalid_api_key");
         }
-      }
+        context.key = key;
 
-      // Chat completions
-      if (path === "/v1/chat/completions" && method === "POST") {
-        const rawBody = await parseBody(req);
-        let body: { model?: string };
-        try {
-          body = JSON.parse(rawBody) as { model?: string };
-        } catch {
-          return sendError(
-            res,
-            "Invalid JSON in request body",
-            400,
-            "invalid_json"
-          );
+        if (isExpired(key)) {
+          return sendError(res, "API key expired", 401, "expired_api_key");
         }
+      }
 
-        const aliasName = body.model?.toLowerCase();
-        if (!aliasName) {
-          return sendError(
-            res,
-            "Missing 'model' field in request body",
-            400,
-            "missing_model"
-          );
+      // List models, or look one up; a key only sees its aliases
+      if (
+        (path === "/v1/models" || path.startsWith("/v1/models/")) &&
+        method === "GET"
+      ) {
+        // IDs of pass-through models contain slashes
+        if (path !== "/v1/models") {
+          let id: string;
+          try {
+            id = decodeURIComponent(path.slice("/v1/models/".length));
+          } catch {
+            return sendError(res, "Malformed model ID", 400, "invalid_request");
+          }
+          const alias = resolveModel(env, id);
+          if (!alias || !canUseAlias(key, alias.name)) {
+            return sendError(
+              res,
+              `Unknown model: ${id}`,
+              404,
+              "model_not_found"
+            );
+          }
+          return sendJson(res, describeModel(env, alias));
         }
 
-        const alias = env.aliases.get(aliasName);
-        if (!alias) {
-          return sendJson(
-            res,
-            { error: `Unknown model: ${aliasName}` },
-            404
-          );
+        const models = Array.from(env.aliases.values());
+        // Pass-through models, when enabled, follow the aliases
+        if (env.passthrough?.listModels) {
+          for (const model of reachableModels(env)) {
+            const alias = resolveModel(env, model.id);
+            if (alias && !env.aliases.has(alias.name)) models.push(alias);
+          }
         }
+        const data = models
+          .filter((alias) => canUseAlias(key, alias.name))
+          .map((alias) => describeModel(env, alias));
+        return sendJson(res, { object: "list", data });
+      }
 
-        return proxyWithFallback(alias, body, env.providers, res);
+      if (path.startsWith("/admin/") && key && !key.admin) {
+        return sendError(
+          res,
+          `Key "${key.name}" may not call admin endpoints`,
+          403,
+          "admin_required"
+        );
       }
 
-      // Anthropic messages endpoint
-      if (path === "/v1/messages" && method === "POST") {
-        const rawBody = await parseBody(req);
-        let body: { model?: string };
+      // Reload .env / config file without restarting
+      if (path === "/admin/reload" && method === "POST") {
         try {
-          body = JSON.parse(rawBody) as { model?: string };
-        } catch {
+          return sendJson(res, {
+            status: "ok",
+            ...(await reloader.reload("admin endpoint")),
+          });
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
           return sendError(
             res,
-            "Invalid JSON in request body",
-            400,
-            "invalid_json"
+            `Reload failed: ${message}`,
+            500,
+            "reload_failed"
           );
         }
+      }
 
-        const aliasName = body.model?.toLowerCase();
-        if (!aliasName) {
+      // Rediscover all providers now, or one with ?provider=name
+      if (path === "/admin/discover" && method === "POST") {
+        const name = url.searchParams.get("provider")?.toLowerCase();
+        const provider = name ? env.providers.get(name) : undefined;
+        if (name && !provider) {
           return sendError(
             res,
-            "Missing 'model' field in request body",
-            400,
-            "missing_model"
+            `Unknown provider: ${name}`,
+            404,
+            "unknown_provider"
           );
         }
+        const providers = provider ? [provider] : [...env.providers.values()];
+        await Promise.all(
+          providers.map((p) => discoverProvider(p, env.discovery))
+        );
+        return sendJson(res, {
+          status: "ok",
+          providers: providers.map((p) => ({
+            name: p.name,
+            models: p.models.length,
+            discovery: discoveryStatus(p),
+          })),
+        });
+      }
 
-        const alias = env.aliases.get(aliasName);
-        if (!alias) {
-          return sendJson(
+      // Aggregated usage and cost; keys without admin see only their own
+      if (path === "/v1/usage" && method === "GET") {
+        if (!env.usage) {
+          return sendError(
             res,
-            { error: `Unknown model: ${aliasName}` },
-            404
+            "Usage accounting is disabled. Add a usage section to the config file or set PASSY_USAGE_FILE.",
+            404,
+            "usage_disabled"
           );
         }
+        const query = readUsageQuery(url.searchParams);
+        if (key && !key.admin) query.filters.key = key.name;
+        const summary = await summarizeUsage(env.usage, query);
+        return sendJson(res, {
+          object: "usage",
+          from: query.from ?? null,
+          to: query.to ?? null,
+          group_by: query.groupBy,
+          ...summary,
+        });
+      }
 
-        return proxyWithFallback(alias, body, env.providers, res);
+      // Chat completions
+      if (path === "/v1/chat/completions" && method === "POST") {
+        return await routeAliasRequest(req, res, env, context, {
+          dialect: "openai",
+          cache: true,
+        });
+      }
+
+      // Anthropic messages endpoint
+      if (path === "/v1/messages" && method === "POST") {
+        return await routeAliasRequest(req, res, env, context, {
+          dialect: "anthropic",
+        });
+      }
+
+      // Legacy completions and the Responses API, served by chat models
+      if (path === "/v1/completions" && method === "POST") {
+        return await routeAliasRequest(req, res, env, context, {
+          dialect: "openai",
+          translate: (body, alias) => ({
+            body: completionsToChat(body),
+            toClient: chatToCompletions({ model: alias.name }),
+          }),
+        });
+      }
+      if (path === "/v1/responses" && method === "POST") {
+        return await routeAliasRequest(req, res, env, context, {
+          dialect: "openai",
+          translate: (body, alias) => ({
+            body: responsesToChat(body),
+            toClient: chatToResponses({
+              model: alias.name,
+              settings: responseSettings(body),
+            }),
+          }),
+        });
+      }
+
+      // Embeddings endpoint (OpenAI format); awaited, so invalid inputs get
+      // the 400 below
+      if (path === "/v1/embeddings" && method === "POST") {
+        return await routeAliasRequest(req, res, env, context, {
+          kind: "embeddings",
+          dialect: "openai",
+          proxy: (alias, body, options) =>
+            proxyEmbeddings(alias, body, env.providers, res, options),
+        });
       }
 
       return sendError(res, "Not found", 404, "not_found");
     } catch (err) {
-      console.error("Request handling error:", err);
+      if (err instanceof InvalidRequestError) {
+        return sendJson(
+          res,
+          { error: err.message, code: err.code, param: err.param },
+          400
+        );
+      }
       const message =
         err instanceof Error ? err.message : "Internal server error";
+      log.error("Request handling error", {
+        request_id: context.id,
+        error: message,
+      });
       const sanitizedMessage = message.includes("body too large")
         ? "Request body too large"
         : "Internal server error";
@@ -187,30 +743,39 @@ function createRequestHandler(env: EnvConfig, authKey: string | undefined) {
 }
 
 export async function startServer(
-  port: number
+  port?: number
 ): Promise<{ port: number; stop: () => void }> {
-  // Security: Get PASSY_AUTH_KEY from environment (optional - if not set, no auth required)
-  const AUTH_KEY = process.env.PASSY_AUTH_KEY;
-
-  // Load environment and discover providers
+  // Load config file + environment and discover providers
   const env = loadEnv();
-  await discoverProviders(env.providers);
+  configureLogger(env);
+  await discoverProviders(env.providers, env.discovery);
+
+  // Config can be swapped at runtime (file change, SIGHUP, /admin/reload)
+  const state: GatewayState = { env };
+  const reloader = createReloader(state);
 
-  const server = http.createServer(createRequestHandler(env, AUTH_KEY));
+  // Security: PASSY_AUTH_KEY / server.authKey is optional - if not set, no auth required
+  const server = http.createServer(createRequestHandler(state, reloader));
 
   return new Promise((resolve, reject) => {
     server.on("error", (err: NodeJS.ErrnoException) => {
       reject(err);
     });
 
-    server.listen(port, "127.0.0.1", () => {
+    const listenPort = port ?? env.port;
+    server.listen(listenPort, "127.0.0.1", () => {
       const addr = server.address();
-      const actualPort = typeof addr === "object" && addr ? addr.port : port;
-      console.log(`Mini-Passy running on http://127.0.0.1:${actualPort}`);
-      console.log(`Aliases: ${Array.from(env.aliases.keys()).join(", ")}`);
+      const actualPort =
+        typeof addr === "object" && addr ? addr.port : listenPort;
+      log.info(`Mini-Passy running on http://127.0.0.1:${actualPort}`);
+      log.info(`Aliases: ${Array.from(env.aliases.keys()).join(", ")}`);
+      reloader.watch();
+      const stopDiscovery = scheduleDiscovery(() => state.env);
       resolve({
         port: actualPort,
         stop: () => {
+          reloader.close();
+          stopDiscovery();
           server.closeAllConnections?.();
           server.close();
         },
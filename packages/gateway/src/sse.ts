@@ -0,0 +1,158 @@
+import { StringDecoder } from "node:string_decoder";
+import { Transform } from "node:stream";
+
+export interface SSEEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Incremental Server-Sent Events parser. Feed it raw chunks as they arrive;
+ * `onEvent` is called once per complete event (blank-line terminated).
+ */
+export function createSSEParser(onEvent: (event: SSEEvent) => void): {
+  push(chunk: Buffer | string): void;
+  flush(): void;
+} {
+  // Chunks may split multi-byte characters, so decode incrementally
+  const decoder = new StringDecoder("utf8");
+  let buffer = "";
+  let eventName: string | undefined;
+  let dataLines: string[] = [];
+
+  function dispatch(): void {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventName, data: dataLines.join("\n") });
+    }
+    eventName = undefined;
+    dataLines = [];
+  }
+
+  function processLine(line: string): void {
+    if (line === "") {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(":")) return; // Comment / keep-alive
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "event") eventName = value;
+    else if (field === "data") dataLines.push(value);
+  }
+
+  return {
+    push(chunk) {
+      buffer += typeof chunk === "string" ? chunk : decoder.write(chunk);
+      let newline: number;
+      while ((newline = buffer.search(/\r\n|\r|\n/)) !== -1) {
+        // A trailing CR may be the first half of a CRLF split across chunks
+        if (newline === buffer.length - 1 && buffer[newline] === "\r") break;
+        const line = buffer.slice(0, newline);
+        const sepLength = buffer.startsWith("\r\n", newline) ? 2 : 1;
+        buffer = buffer.slice(newline + sepLength);
+        processLine(line);
+      }
+    },
+    flush() {
+      buffer += decoder.end();
+      if (buffer) processLine(buffer);
+      buffer = "";
+      dispatch();
+    },
+  };
+}
+
+export function formatSSE(data: unknown, event?: string): string {
+  const payload = typeof data === "string" ? data : JSON.stringify(data);
+  return `${event ? `event: ${event}\n` : ""}data: ${payload}\n\n`;
+}
+
+interface StreamParser {
+  push(chunk: Buffer | string): void;
+  flush(): void;
+}
+
+// A byte-in/byte-out transform around a parser; `emit` collects the text
+// produced for each parsed unit, `onEnd` may add trailing text
+function reencodingTransform(
+  createParser: (emit: (text: string) => void) => StreamParser,
+  onEnd?: () => string
+): Transform {
+  let output: string[] = [];
+  const parser = createParser((text) => {
+    if (text) output.push(text);
+  });
+
+  function drain(stream: Transform): void {
+    if (output.length > 0) stream.push(output.join(""));
+    output = [];
+  }
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      parser.push(chunk);
+      drain(this);
+      callback();
+    },
+    flush(callback) {
+      parser.flush();
+      const trailer = onEnd?.();
+      if (trailer) output.push(trailer);
+      drain(this);
+      callback();
+    },
+  });
+}
+
+/**
+ * Builds a byte-in/byte-out transform that re-encodes an SSE stream. The
+ * handler receives each parsed event and returns the SSE text to emit for it
+ * (or an empty string to drop it); `onEnd` may emit trailing events.
+ */
+export function createSSETransform(
+  onEvent: (event: SSEEvent) => string,
+  onEnd?: () => string
+): Transform {
+  return reencodingTransform(
+    (emit) => createSSEParser((event) => emit(onEvent(event))),
+    onEnd
+  );
+}
+
+/** Splits a byte stream into its non-empty lines, e.g. of NDJSON */
+export function createLineParser(onLine: (line: string) => void): StreamParser {
+  const decoder = new StringDecoder("utf8");
+  let buffer = "";
+
+  return {
+    push(chunk) {
+      buffer += typeof chunk === "string" ? chunk : decoder.write(chunk);
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) if (line.trim()) onLine(line.trim());
+    },
+    flush() {
+      buffer += decoder.end();
+      if (buffer.trim()) onLine(buffer.trim());
+      buffer = "";
+    },
+  };
+}
+
+/**
+ * Builds a transform that turns a newline-delimited JSON stream (Ollama's)
+ * into SSE. The handler returns the SSE text to emit for each line.
+ */
+export function createNDJSONTransform(
+  onLine: (line: string) => string,
+  onEnd?: () => string
+): Transform {
+  return reencodingTransform(
+    (emit) => createLineParser((line) => emit(onLine(line))),
+    onEnd
+  );
+}
@@ -1,20 +1,266 @@
+import type { OutgoingHttpHeaders } from "node:http";
+import type { Transform } from "node:stream";
+
 export interface Provider {
   name: string;
   url: string;
-  key: string;
+  type: ProviderType; // "auto" has its format probed by discovery
+  basePath: string; // API root below the URL, e.g. "/v1"
+  authScheme?: AuthScheme; // Default by type and format
+  apiVersion?: string; // api-version query parameter (azure-openai)
+  embeddings?: boolean; // Serves /embeddings; default by type and format
+  embeddingBatchSize: number; // Most inputs per embeddings request
+  keys: ProviderKey[]; // Upstream API keys; keyless providers have one ""
+  keyRotation: KeyRotation;
+  headers: Record<string, string>; // Extra headers sent with every request
+  timeouts: Timeouts; // Upstream time limits (alias settings override)
+  rateLimit?: RateLimit; // Saturated providers are skipped by fallback
+  circuitBreaker: CircuitBreakerConfig;
+  circuit: CircuitBreaker; // Live state, shared by every alias
   openai: boolean; // Supports OpenAI format
   anthropic: boolean; // Supports Anthropic format
+  ollama: boolean; // Supports Ollama's native API
   models: string[]; // Available models
+  discovery: DiscoveryState;
+}
+
+export interface DiscoveryConfig {
+  timeout: number; // ms per format probe
+  refreshInterval: number; // ms between model list refreshes; 0 disables
+  retryDelay: number; // ms before the first retry, doubled per failure
+  maxRetryDelay: number;
+}
+
+// Outcome of the provider's model discovery runs
+export interface DiscoveryState {
+  lastAttemptAt?: number;
+  lastSuccessAt?: number; // Last run that found a format
+  error?: string; // Why the last run found none
+  failures: number; // Consecutive runs that found none
+  nextAt?: number; // Scheduled refresh or retry
+}
+
+export type ProviderType =
+  | "auto"
+  | "openai"
+  | "anthropic"
+  | "azure-openai"
+  | "gemini"
+  | "ollama"
+  | "openrouter";
+
+// How the provider key is sent: `Authorization: Bearer`, `x-api-key` or
+// Azure's `api-key` header
+export type AuthScheme = "bearer" | "x-api-key" | "api-key";
+
+// How requests are spread over a provider's keys
+export type KeyRotation = "round_robin" | "least_recently_limited";
+
+// One upstream API key of a provider with its live state
+export interface ProviderKey {
+  key: string;
+  uses: number; // Requests sent with the key
+  lastUsedAt?: number;
+  limitedAt?: number; // Last 429 or 401
+  benchedUntil?: number; // Skipped until then while other keys are usable
+  benchedFor?: number; // Status that benched it
+}
+
+export interface AliasTarget {
+  provider: string;
+  model: string;
+  weight?: number; // For the "weighted" strategy (default 1)
 }
 
+// How an alias orders its targets for each request; the rest of the order
+// is still used for fallback
+export type BalanceStrategy =
+  | "priority" // As listed
+  | "weighted" // Random, in proportion to target weights
+  | "round_robin"
+  | "least_in_flight" // Fewest open requests to the provider first
+  | "lowest_latency"; // Lowest average time to first byte first
+
+// What an alias's models do: chat routes and /v1/embeddings only accept
+// their own kind
+export type AliasKind = "chat" | "embeddings";
+
 export interface Alias {
   name: string;
-  targets: { provider: string; model: string }[];
+  kind: AliasKind;
+  targets: AliasTarget[];
+  strategy: BalanceStrategy;
   fallbackOn: string[];
+  timeouts?: Timeouts;
+  rateLimit?: RateLimit;
+  // Reported by /v1/models over the built-in model table
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  capabilities?: Partial<ModelCapabilities>;
+}
+
+export interface ModelCapabilities {
+  tools: boolean; // Function calling
+  vision: boolean; // Image inputs
+  streaming: boolean;
+}
+
+// Upstream time limits in ms for one attempt; unset or 0 means no limit
+export interface Timeouts {
+  connect?: number; // Establishing the TCP/TLS connection
+  firstByte?: number; // Request sent until the first response body byte
+  total?: number; // Whole attempt, including a streamed response body
+  idle?: number; // Socket inactivity once connected
+}
+
+export type TimeoutPhase = "connect" | "first_byte" | "total" | "idle";
+
+export interface RateLimit {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number; // Charged after each response, from its usage
+}
+
+export interface CircuitBreakerConfig {
+  enabled: boolean;
+  failureThreshold: number; // Consecutive failures that open the circuit
+  errorRate?: number; // Failure ratio within `window` that opens it (0-1)
+  minRequests: number; // Attempts within `window` before errorRate applies
+  window: number; // ms
+  cooldown: number; // ms the circuit stays open before probing
+  halfOpenProbes: number; // Concurrent probe requests while half-open
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreaker {
+  state: CircuitState;
+  failures: number; // Consecutive
+  outcomes: { at: number; failed: boolean }[]; // Attempts within the window
+  openedAt?: number;
+  probes: number; // Probe requests in flight while half-open
+  probedAt?: number;
+  lastError?: string;
+}
+
+// Request/response shape spoken by a client (by endpoint) or a provider
+export type Dialect = "openai" | "anthropic";
+
+// Request/response shape a provider is sent requests in: a dialect, or
+// Ollama's native API, which no client speaks
+export type ProviderFormat = Dialect | "ollama";
+
+// Upstream failure classes an alias can fall back on
+export type FailureKind = "5xx" | "4xx" | "rate_limit" | "timeout" | "network";
+
+export interface GatewayKey {
+  name: string; // Shown in logs instead of the key itself
+  hash: string; // Hex sha256 of the key; the key itself is never stored
+  aliases?: string[]; // Aliases the key may use; all when unset
+  admin: boolean; // May call /admin/* endpoints
+  quota: { requestsPerDay?: number; tokensPerDay?: number };
+  rateLimit?: RateLimit;
+  expiresAt?: Date;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageConfig {
+  file: string; // Append-only JSONL store, one record per request
+  // By provider, then model ("*" for any model of that provider)
+  prices: Record<string, Record<string, ModelPrice>>;
+}
+
+export type CacheBackend = "memory" | "disk";
+
+export interface CacheConfig {
+  backend: CacheBackend;
+  ttl: number; // ms an entry is served for
+  maxEntries: number;
+  maxBytes: number; // Total size of the stored responses
+  dir: string; // Directory of the disk backend
+}
+
+// Routing of `provider/model` names that match no alias
+export interface PassthroughConfig {
+  allow: string[]; // `provider/model` patterns; empty allows every model
+  deny: string[]; // Checked first
+  listModels: boolean; // List the reachable models in /v1/models
 }
 
 export interface EnvConfig {
   port: number;
+  authKey?: string; // Legacy single gateway key, also listed in `keys`
+  keys: Map<string, GatewayKey>; // By hash; no auth when empty
   providers: Map<string, Provider>;
   aliases: Map<string, Alias>;
-}
\ No newline at end of file
+  usage?: UsageConfig; // Usage accounting; off when unset
+  cache?: CacheConfig; // Response cache; off when unset
+  passthrough?: PassthroughConfig; // Off when unset
+  discovery: DiscoveryConfig;
+  logging: LogConfig;
+}
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface LogConfig {
+  level: LogLevel; // Least severe level written
+  format: "json" | "text";
+  bodies: boolean; // Log prompt and response bodies at debug level
+}
+
+// Token counts of one upstream response, whatever its format
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// One target tried for a request, in the order they were tried
+export interface Attempt {
+  provider: string;
+  model: string;
+  outcome: "served" | "skipped" | FailureKind;
+  status?: number; // Upstream HTTP status, if one was received
+  error?: string;
+  latencyMs: number; // Until the response was committed or given up on
+}
+
+/**
+ * What happened to one client request. The proxy fills it in as targets
+ * are tried; logging and usage accounting read it once the response closes.
+ */
+export interface RequestContext {
+  id: string; // x-request-id, generated unless the client sent one
+  startedAt: number;
+  alias?: string;
+  key?: GatewayKey;
+  stream?: boolean;
+  attempts: Attempt[];
+  served?: { provider: string; model: string };
+  firstByteAt?: number; // First body byte from the serving target
+  usage?: TokenUsage;
+  cache?: "hit" | "miss" | "bypass"; // Set for requests the cache applies to
+}
+
+/**
+ * Converts a provider response into the shape the client asked for. `json`
+ * handles complete bodies, `stream` returns a transform for SSE bodies.
+ */
+export interface ResponseTranslator {
+  json(body: unknown): unknown;
+  stream(): Transform;
+}
+
+/**
+ * The parts of the client response the proxy writes to. Embeddings batches
+ * pass a stand-in that collects the body instead of sending it.
+ */
+export interface ClientResponse extends NodeJS.WritableStream {
+  readonly destroyed: boolean;
+  readonly writableEnded: boolean;
+  readonly writableFinished: boolean;
+  writeHead(statusCode: number, headers?: OutgoingHttpHeaders): unknown;
+}
@@ -0,0 +1,343 @@
+import {
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  type WriteStream,
+} from "node:fs";
+import { createInterface } from "node:readline";
+import {
+  createLineParser,
+  createSSEParser,
+  createSSETransform,
+  formatSSE,
+} from "./sse.js";
+import { log } from "./logger.js";
+import type {
+  ModelPrice,
+  ResponseTranslator,
+  TokenUsage,
+  UsageConfig,
+} from "./types.js";
+
+interface UsageFields {
+  // OpenAI
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  // Anthropic
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+  // Ollama, on the response itself
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * Reads a `usage` object in OpenAI or Anthropic shape, or an Ollama
+ * response's counts. Anthropic cache reads and writes count as prompt
+ * tokens, as in `mapUsage`.
+ */
+export function readUsage(value: unknown): TokenUsage | null {
+  if (typeof value !== "object" || value === null) return null;
+  const usage = value as UsageFields;
+  if (
+    usage.prompt_tokens !== undefined ||
+    usage.completion_tokens !== undefined
+  ) {
+    return {
+      promptTokens: usage.prompt_tokens ?? 0,
+      completionTokens: usage.completion_tokens ?? 0,
+    };
+  }
+  if (usage.input_tokens !== undefined || usage.output_tokens !== undefined) {
+    return {
+      promptTokens:
+        (usage.input_tokens ?? 0) +
+        (usage.cache_creation_input_tokens ?? 0) +
+        (usage.cache_read_input_tokens ?? 0),
+      completionTokens: usage.output_tokens ?? 0,
+    };
+  }
+  if (usage.prompt_eval_count !== undefined || usage.eval_count !== undefined) {
+    return {
+      promptTokens: usage.prompt_eval_count ?? 0,
+      completionTokens: usage.eval_count ?? 0,
+    };
+  }
+  return null;
+}
+
+/** Extracts token usage from a complete JSON response body */
+export function usageFromBody(rawBody: string): TokenUsage | null {
+  try {
+    const body = JSON.parse(rawBody) as { usage?: unknown };
+    return readUsage(body.usage ?? body);
+  } catch {
+    return null;
+  }
+}
+
+export interface UsageReader {
+  push(chunk: Buffer): void;
+  finish(): TokenUsage | null;
+}
+
+/**
+ * Collects token usage from an upstream body as it passes by. OpenAI streams
+ * carry it on the last chunk (with `stream_options.include_usage`), Anthropic
+ * streams split it between `message_start` and `message_delta`, Ollama's
+ * NDJSON streams have it on the final line.
+ */
+export function createUsageReader(
+  body: "json" | "sse" | "ndjson"
+): UsageReader {
+  if (body === "json") {
+    const chunks: Buffer[] = [];
+    return {
+      push: (chunk) => chunks.push(chunk),
+      finish: () => usageFromBody(Buffer.concat(chunks).toString("utf8")),
+    };
+  }
+
+  if (body === "ndjson") {
+    let usage: TokenUsage | null = null;
+    const parser = createLineParser((line) => {
+      if (!line.includes('"eval_count"')) return;
+      try {
+        usage = readUsage(JSON.parse(line)) ?? usage;
+      } catch {
+        // Not JSON
+      }
+    });
+    return {
+      push: (chunk) => parser.push(chunk),
+      finish() {
+        parser.flush();
+        return usage;
+      },
+    };
+  }
+
+  const merged: Record<string, unknown> = {};
+  const parser = createSSEParser(({ data }) => {
+    // Most events are content deltas; skip parsing those
+    if (!data.includes('"usage"')) return;
+    try {
+      const event = JSON.parse(data) as {
+        usage?: object | null;
+        message?: { usage?: object };
+      };
+      Object.assign(merged, event.message?.usage, event.usage);
+    } catch {
+      // Not JSON (e.g. [DONE])
+    }
+  });
+  return {
+    push: (chunk) => parser.push(chunk),
+    finish() {
+      parser.flush();
+      return readUsage(merged);
+    },
+  };
+}
+
+/**
+ * Removes what `stream_options.include_usage` adds to an OpenAI stream, for
+ * clients that didn't ask for it: the trailing usage-only chunk and the
+ * `usage: null` field on every other chunk.
+ */
+export function stripStreamUsage(): ResponseTranslator {
+  return {
+    json: (body) => body,
+    stream: () =>
+      createSSETransform(({ event, data }) => {
+        if (!data.includes('"usage"')) return formatSSE(data, event);
+        let chunk: { choices?: unknown[]; usage?: unknown };
+        try {
+          chunk = JSON.parse(data) as typeof chunk;
+        } catch {
+          return formatSSE(data, event);
+        }
+        // Only the usage chunk itself; other choice-less chunks, such as
+        // Azure's prompt_filter_results, still reach the client
+        const usageOnly =
+          chunk.usage !== undefined &&
+          chunk.usage !== null &&
+          Array.isArray(chunk.choices) &&
+          chunk.choices.length === 0;
+        if (usageOnly) return "";
+        delete chunk.usage;
+        return formatSSE(chunk, event);
+      }),
+  };
+}
+
+// One line of the usage store. Field names follow the API's snake_case so
+// the file can be read with the same tools as /v1/usage output.
+export interface UsageRecord {
+  ts: string; // ISO timestamp of the request start
+  alias: string;
+  key: string | null; // Gateway key name
+  provider: string | null; // Target that answered; null if none did
+  model: string | null; // Model name sent to that provider
+  status: number;
+  stream: boolean;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost: number | null; // USD; null when no price is configured
+  latency_ms: number;
+}
+
+function priceFor(
+  config: UsageConfig,
+  provider: string,
+  model: string
+): ModelPrice | undefined {
+  const prices = config.prices[provider];
+  return prices?.[model] ?? prices?.["*"];
+}
+
+export function computeCost(
+  config: UsageConfig,
+  provider: string,
+  model: string,
+  usage: TokenUsage
+): number | null {
+  const price = priceFor(config, provider, model);
+  if (!price) return null;
+  const cost =
+    (usage.promptTokens * price.input + usage.completionTokens * price.output) /
+    1_000_000;
+  return Math.round(cost * 1e8) / 1e8;
+}
+
+let store: { path: string; stream: WriteStream } | null = null;
+
+/** Appends a record to the store, reopening it if the path changed */
+export function appendUsage(config: UsageConfig, record: UsageRecord): void {
+  if (store?.path !== config.file) {
+    store?.stream.end();
+    const path = config.file;
+    const stream = createWriteStream(path, { flags: "a" });
+    stream.on("error", (err) => {
+      log.error("Cannot write usage records", { path, error: err.message });
+    });
+    store = { path, stream };
+  }
+  store.stream.write(JSON.stringify(record) + "\n");
+}
+
+export const USAGE_GROUPS = [
+  "day",
+  "alias",
+  "key",
+  "provider",
+  "model",
+] as const;
+
+export type UsageGroup = (typeof USAGE_GROUPS)[number];
+
+export interface UsageQuery {
+  from?: string; // First UTC day included, YYYY-MM-DD
+  to?: string; // Last UTC day included
+  groupBy: UsageGroup[];
+  filters: Partial<Record<Exclude<UsageGroup, "day">, string>>;
+}
+
+export interface UsageTotals {
+  requests: number;
+  errors: number; // Requests answered with status >= 400
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost: number;
+  avg_latency_ms: number;
+}
+
+type UsageRow = Partial<Record<UsageGroup, string | null>> & UsageTotals;
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    errors: 0,
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    total_tokens: 0,
+    cost: 0,
+    avg_latency_ms: 0,
+  };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  // Running mean, so no separate latency sum has to be carried
+  totals.avg_latency_ms +=
+    (record.latency_ms - totals.avg_latency_ms) / (totals.requests + 1);
+  totals.requests++;
+  if (record.status >= 400) totals.errors++;
+  totals.prompt_tokens += record.prompt_tokens;
+  totals.completion_tokens += record.completion_tokens;
+  totals.total_tokens += record.prompt_tokens + record.completion_tokens;
+  totals.cost += record.cost ?? 0;
+}
+
+function roundTotals<T extends UsageTotals>(totals: T): T {
+  totals.cost = Math.round(totals.cost * 1e6) / 1e6;
+  totals.avg_latency_ms = Math.round(totals.avg_latency_ms);
+  return totals;
+}
+
+/**
+ * Aggregates the usage store. The file is streamed, so its size only
+ * affects the time taken, not memory.
+ */
+export async function summarizeUsage(
+  config: UsageConfig,
+  query: UsageQuery
+): Promise<{ data: UsageRow[]; totals: UsageTotals }> {
+  const rows = new Map<string, UsageRow>();
+  const totals = emptyTotals();
+  if (!existsSync(config.file)) return { data: [], totals };
+
+  const lines = createInterface({
+    input: createReadStream(config.file),
+    crlfDelay: Infinity,
+  });
+  for await (const line of lines) {
+    let record: UsageRecord;
+    try {
+      record = JSON.parse(line) as UsageRecord;
+    } catch {
+      continue; // Torn write from a crash
+    }
+    // Lines that parse but aren't records, e.g. a stray `null`
+    if (typeof record !== "object" || record === null) continue;
+    if (typeof record.ts !== "string") continue;
+
+    const day = record.ts.slice(0, 10);
+    if (query.from && day < query.from) continue;
+    if (query.to && day > query.to) continue;
+    const values = { day, ...record };
+    const filters = Object.entries(query.filters) as [UsageGroup, string][];
+    if (filters.some(([group, value]) => values[group] !== value)) continue;
+
+    const groups = query.groupBy.map((group) => values[group] ?? null);
+    const id = JSON.stringify(groups);
+    let row = rows.get(id);
+    if (!row) {
+      // Group columns first, then the totals
+      const keys = query.groupBy.map((group, i) => [group, groups[i]]);
+      const created: UsageRow = {
+        ...Object.fromEntries(keys),
+        ...emptyTotals(),
+      };
+      rows.set(id, created);
+      row = created;
+    }
+    addRecord(row, record);
+    addRecord(totals, record);
+  }
+
+  const data = Array.from(rows.values()).map(roundTotals);
+  return { data, totals: roundTotals(totals) };
+}
@@ -0,0 +1,145 @@
+import { InvalidRequestError } from "./errors.js";
+
+// Shape checks for the request bodies the converters read, so a malformed
+// body is answered with a 400 naming the offending field instead of failing
+// inside a conversion. Only the fields the converters use are checked;
+// everything else is left for the provider to judge.
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function invalid(param: string, expected: string): InvalidRequestError {
+  return new InvalidRequestError(`${param} must be ${expected}`, param);
+}
+
+function checkList(value: unknown, param: string): unknown[] {
+  if (!Array.isArray(value)) throw invalid(param, "an array");
+  return value;
+}
+
+function checkObject(value: unknown, param: string): Record<string, unknown> {
+  if (!isObject(value)) throw invalid(param, "an object");
+  return value;
+}
+
+function checkString(value: unknown, param: string, optional = false): void {
+  if (optional && (value === undefined || value === null)) return;
+  if (typeof value !== "string") throw invalid(param, "a string");
+}
+
+// Content given as a string or a list of typed parts
+function checkParts(
+  value: unknown,
+  param: string,
+  checkPart?: (part: Record<string, unknown>, param: string) => void
+): void {
+  if (value === undefined || value === null || typeof value === "string") {
+    return;
+  }
+  if (!Array.isArray(value)) throw invalid(param, "a string or an array");
+  value.forEach((item, i) => {
+    const part = checkObject(item, `${param}[${i}]`);
+    checkString(part.type, `${param}[${i}].type`);
+    checkPart?.(part, `${param}[${i}]`);
+  });
+}
+
+function checkOpenAIPart(part: Record<string, unknown>, param: string): void {
+  if (part.type === "text") checkString(part.text, `${param}.text`);
+  if (part.type === "image_url") {
+    const image = checkObject(part.image_url, `${param}.image_url`);
+    checkString(image.url, `${param}.image_url.url`);
+  }
+}
+
+/**
+ * Checks the messages and tools of an OpenAI chat completion request.
+ * Throws InvalidRequestError for the first malformed field.
+ */
+export function checkOpenAIChatRequest(request: object): void {
+  const body = request as Record<string, unknown>;
+  if (body.messages !== undefined) {
+    checkList(body.messages, "messages").forEach((item, i) => {
+      const param = `messages[${i}]`;
+      const message = checkObject(item, param);
+      checkString(message.role, `${param}.role`);
+      checkParts(message.content, `${param}.content`, checkOpenAIPart);
+      checkString(message.tool_call_id, `${param}.tool_call_id`, true);
+      if (message.tool_calls === undefined || message.tool_calls === null) {
+        return;
+      }
+      checkList(message.tool_calls, `${param}.tool_calls`).forEach(
+        (call, j) => {
+          const callParam = `${param}.tool_calls[${j}]`;
+          const fn = checkObject(
+            checkObject(call, callParam).function,
+            `${callParam}.function`
+          );
+          checkString(fn.name, `${callParam}.function.name`);
+          checkString(fn.arguments, `${callParam}.function.arguments`, true);
+        }
+      );
+    });
+  }
+
+  if (body.tools !== undefined && body.tools !== null) {
+    checkList(body.tools, "tools").forEach((item, i) => {
+      const tool = checkObject(item, `tools[${i}]`);
+      if (tool.type !== "function") return; // Rejected by the converters
+      const fn = checkObject(tool.function, `tools[${i}].function`);
+      checkString(fn.name, `tools[${i}].function.name`);
+    });
+  }
+
+  const choice = body.tool_choice;
+  if (isObject(choice)) {
+    const fn = checkObject(choice.function, "tool_choice.function");
+    checkString(fn.name, "tool_choice.function.name");
+  }
+}
+
+function checkAnthropicBlock(
+  block: Record<string, unknown>,
+  param: string
+): void {
+  if (block.type === "image") {
+    checkObject(block.source, `${param}.source`);
+  } else if (block.type === "tool_result") {
+    checkParts(block.content, `${param}.content`);
+  }
+}
+
+/**
+ * Checks the system prompt, messages and tools of an Anthropic Messages
+ * request. Throws InvalidRequestError for the first malformed field.
+ */
+export function checkAnthropicRequest(request: object): void {
+  const body = request as Record<string, unknown>;
+  checkParts(body.system, "system");
+
+  if (body.messages !== undefined) {
+    checkList(body.messages, "messages").forEach((item, i) => {
+      const param = `messages[${i}]`;
+      const message = checkObject(item, param);
+      if (message.role !== "user" && message.role !== "assistant") {
+        throw invalid(`${param}.role`, "'user' or 'assistant'");
+      }
+      if (message.content === undefined || message.content === null) {
+        throw invalid(`${param}.content`, "a string or an array");
+      }
+      checkParts(message.content, `${param}.content`, checkAnthropicBlock);
+    });
+  }
+
+  if (body.tools !== undefined && body.tools !== null) {
+    checkList(body.tools, "tools").forEach((item, i) => {
+      checkString(checkObject(item, `tools[${i}]`).name, `tools[${i}].name`);
+    });
+  }
+
+  if (body.tool_choice !== undefined && body.tool_choice !== null) {
+    const choice = checkObject(body.tool_choice, "tool_choice");
+    checkString(choice.type, "tool_choice.type");
+  }
+}